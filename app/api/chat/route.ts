@@ -1,335 +1,377 @@
 import { getServerSession } from "next-auth";
+import { after } from "next/server";
 import { authOptions } from "../auth/[...nextauth]/route";
+import { and, eq, inArray } from "drizzle-orm";
+import { runAgent } from "@/lib/ai/agent";
+import { prepareContext } from "@/lib/ai/context";
+import { toHistory } from "@/lib/ai/history";
+import { selectRelevantMemories } from "@/lib/ai/memory";
+import { resolveProvider } from "@/lib/ai/providers";
+import { generateChatTitle } from "@/lib/ai/title";
+import {
+  CHAT_STREAM_CONTENT_TYPE,
+  encodeEvent,
+  type ChatStreamEvent,
+} from "@/lib/ai/stream";
+import type { ToolInvocation } from "@/lib/ai/tools";
+import type { LLMProvider } from "@/lib/ai/types";
+import { withUsageTracking, type UsageRecord } from "@/lib/ai/usage";
+import { getBranch } from "@/lib/chat-tree";
+import { db } from "@/lib/db";
+import { chats, messages, tokenUsage, users } from "@/lib/db/schema";
+import { listMemories } from "@/lib/memories";
 
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const ERROR_MESSAGE = "Sorry, I encountered an error. Please try again.";
+
+/**
+ * Answer the next turn of a saved chat. The body names the chat, the message
+ * being answered (`parentId`) and, unless this is a regeneration, the new
+ * user `message` to add under it. History is read from the database, and the
+ * question and answer are saved together once the answer is complete,
+ * stopped or failed.
+ */
 export async function POST(req: Request) {
   const session = await getServerSession(authOptions);
 
-  if (!session?.user) {
+  if (!session?.user?.email) {
     return new Response("Unauthorized", { status: 401 });
   }
+  const userId = session.user.email;
 
-  const { messages } = await req.json();
+  const {
+    chatId,
+    parentId = null,
+    message,
+    assistantMessageId,
+    provider: requestedProvider,
+    model: requestedModel,
+  } = await req.json();
 
-  try {
-    // Get the last user message
-    const lastMessage = messages[messages.length - 1]?.content || "";
-
-    // Mock AI responses with tool calling simulation
-    let response = "";
-    let toolResult = null;
-
-    // Check for weather requests
-    if (lastMessage.toLowerCase().includes("weather")) {
-      const location = extractLocation(lastMessage) || "New York";
-      toolResult = {
-        toolName: "getWeather",
-        args: { location },
-        result: {
-          name: location,
-          main: { temp: 22, feels_like: 25, humidity: 65 },
-          weather: [{ main: "Clear", description: "clear sky", icon: "01d" }],
-          wind: { speed: 3.5 },
-          visibility: 10000,
-        },
-      };
-      response = `Here's the current weather in ${location}:`;
+  if (!chatId) {
+    return new Response("chatId is required", { status: 400 });
+  }
+  if (
+    message &&
+    (typeof message.content !== "string" || !message.content.trim())
+  ) {
+    return new Response("Message content is required", { status: 400 });
+  }
+  const requestedIds = [message?.id, assistantMessageId].filter(
+    (id) => id !== undefined,
+  );
+  for (const id of requestedIds) {
+    if (!UUID_PATTERN.test(id)) {
+      return new Response("Message ids must be UUIDs", { status: 400 });
     }
-    // Check for F1 requests
-    else if (
-      lastMessage.toLowerCase().includes("f1") ||
-      lastMessage.toLowerCase().includes("formula")
-    ) {
-      // Determine F1 query type
-      let f1Type = "next-race";
-      if (
-        lastMessage.toLowerCase().includes("result") ||
-        lastMessage.toLowerCase().includes("latest")
-      ) {
-        f1Type = "latest-race";
-      } else if (lastMessage.toLowerCase().includes("standing")) {
-        f1Type = "standings";
-      }
+  }
+  if (new Set(requestedIds).size < requestedIds.length) {
+    return new Response("Message ids must differ", { status: 400 });
+  }
 
-      toolResult = {
-        toolName: "getF1Results",
-        args: { type: f1Type },
-        result:
-          f1Type === "latest-race"
-            ? {
-                MRData: {
-                  RaceTable: {
-                    Races: [
-                      {
-                        raceName: "Dutch Grand Prix",
-                        round: "15",
-                        date: "2024-08-25",
-                        Circuit: {
-                          circuitName: "Circuit Zandvoort",
-                          Location: {
-                            locality: "Zandvoort",
-                            country: "Netherlands",
-                          },
-                        },
-                        Results: [
-                          {
-                            position: "1",
-                            Driver: {
-                              givenName: "Max",
-                              familyName: "Verstappen",
-                            },
-                            Constructor: { name: "Red Bull Racing" },
-                            Time: { time: "1:30:45.123" },
-                            points: "25",
-                          },
-                          {
-                            position: "2",
-                            Driver: {
-                              givenName: "Lando",
-                              familyName: "Norris",
-                            },
-                            Constructor: { name: "McLaren" },
-                            Time: { time: "+22.896" },
-                            points: "18",
-                          },
-                          {
-                            position: "3",
-                            Driver: {
-                              givenName: "Charles",
-                              familyName: "Leclerc",
-                            },
-                            Constructor: { name: "Ferrari" },
-                            Time: { time: "+25.439" },
-                            points: "15",
-                          },
-                        ],
-                      },
-                    ],
-                  },
-                },
-              }
-            : f1Type === "standings"
-              ? {
-                  MRData: {
-                    StandingsTable: {
-                      StandingsLists: [
-                        {
-                          season: "2024",
-                          DriverStandings: [
-                            {
-                              position: "1",
-                              Driver: {
-                                givenName: "Max",
-                                familyName: "Verstappen",
-                              },
-                              Constructors: [{ name: "Red Bull Racing" }],
-                              points: "393",
-                              wins: "9",
-                            },
-                            {
-                              position: "2",
-                              Driver: {
-                                givenName: "Lando",
-                                familyName: "Norris",
-                              },
-                              Constructors: [{ name: "McLaren" }],
-                              points: "331",
-                              wins: "3",
-                            },
-                            {
-                              position: "3",
-                              Driver: {
-                                givenName: "Charles",
-                                familyName: "Leclerc",
-                              },
-                              Constructors: [{ name: "Ferrari" }],
-                              points: "307",
-                              wins: "2",
-                            },
-                          ],
-                        },
-                      ],
-                    },
-                  },
-                }
-              : {
-                  MRData: {
-                    RaceTable: {
-                      Races: [
-                        {
-                          raceName: "Singapore Grand Prix",
-                          round: "18",
-                          Circuit: {
-                            circuitName: "Marina Bay Street Circuit",
-                            Location: {
-                              locality: "Singapore",
-                              country: "Singapore",
-                            },
-                          },
-                          date: "2024-09-22",
-                          time: "12:00:00Z",
-                        },
-                      ],
-                    },
-                  },
-                },
-      };
-      response =
-        f1Type === "latest-race"
-          ? `Here are the latest Formula 1 race results:`
-          : f1Type === "standings"
-            ? `Here are the current F1 driver standings:`
-            : `Here's the next Formula 1 race information:`;
-    }
-    // Check for stock requests
-    else if (
-      lastMessage.toLowerCase().includes("stock") ||
-      lastMessage.toLowerCase().includes("price")
-    ) {
-      const symbol = extractStockSymbol(lastMessage) || "AAPL";
-      toolResult = {
-        toolName: "getStockPrice",
-        args: { symbol },
-        result: {
-          results: [
-            {
-              c: 150.25,
-              h: 152.1,
-              l: 149.8,
-              o: 151.0,
-              v: 45000000,
-            },
-          ],
-        },
-      };
-      response = `Here's the stock information for ${symbol}:`;
-    } else {
-      // Handle greetings and general conversation
-      const lowerMessage = lastMessage.toLowerCase();
-
-      if (
-        lowerMessage.includes("hi") ||
-        lowerMessage.includes("hello") ||
-        lowerMessage.includes("hey")
-      ) {
-        response = `Hello! I'm your AI assistant. I'm here to help you with various tasks. How can I assist you today?`;
-      } else if (
-        lowerMessage.includes("how are you") ||
-        lowerMessage.includes("how do you do")
-      ) {
-        response = `I'm doing great, thank you for asking! I'm ready to help you with anything you need. What would you like to know about?`;
-      } else if (lowerMessage.includes("good morning")) {
-        response = `Good morning! I hope you're having a wonderful day. How can I help you today?`;
-      } else if (lowerMessage.includes("good afternoon")) {
-        response = `Good afternoon! How can I assist you today?`;
-      } else if (lowerMessage.includes("good evening")) {
-        response = `Good evening! What can I help you with tonight?`;
-      } else if (
-        lowerMessage.includes("thank") ||
-        lowerMessage.includes("thanks")
-      ) {
-        response = `You're very welcome! I'm happy to help. Is there anything else you'd like to know?`;
-      } else if (
-        lowerMessage.includes("bye") ||
-        lowerMessage.includes("goodbye") ||
-        lowerMessage.includes("see you")
-      ) {
-        response = `Goodbye! Feel free to come back anytime you need assistance. Have a great day!`;
-      } else if (
-        lowerMessage.includes("help") ||
-        lowerMessage.includes("what can you do")
-      ) {
-        response = `I can help you with:
-
-🌤️ **Weather Information** - Ask "What's the weather in [city]?"
-🏎️ **Formula 1 Updates** - Ask "Next F1 race" or "F1 standings"
-📈 **Stock Prices** - Ask "[SYMBOL] stock price"
-
-I can also have general conversations and answer questions. What would you like to explore?`;
-      } else {
-        // For unclear requests, provide a friendly response with some guidance
-        response = `I'm not quite sure what you're looking for, but I'm here to help! You can ask me about weather, Formula 1, stock prices, or just chat with me about anything. What's on your mind?`;
-      }
+  const [chat] = await db
+    .select()
+    .from(chats)
+    .where(and(eq(chats.id, chatId), eq(chats.userId, userId)))
+    .limit(1);
+
+  if (!chat) {
+    return new Response("Chat not found", { status: 404 });
+  }
+
+  // Client-chosen ids are checked up front; a clash would otherwise only
+  // surface when the finished answer is saved
+  if (requestedIds.length > 0) {
+    const existing = await db
+      .select({ id: messages.id })
+      .from(messages)
+      .where(inArray(messages.id, requestedIds))
+      .limit(1);
+    if (existing.length > 0) {
+      return new Response("Message id already exists", { status: 409 });
     }
+  }
 
-    // Create streaming response with tool results
-    const stream = new ReadableStream({
-      start(controller) {
-        const encoder = new TextEncoder();
-
-        // First send the text response
-        const chunks = response.split(" ");
-        let i = 0;
-
-        const sendChunk = () => {
-          if (i < chunks.length) {
-            controller.enqueue(encoder.encode(chunks[i] + " "));
-            i++;
-            setTimeout(sendChunk, 30); // Faster typing speed
-          } else {
-            // After text, send tool result if available
-            if (toolResult) {
-              setTimeout(() => {
-                controller.enqueue(
-                  encoder.encode(
-                    `\n\nTOOL_RESULT:${JSON.stringify(toolResult)}`,
-                  ),
-                );
-                controller.close();
-              }, 200);
-            } else {
-              controller.close();
-            }
-          }
-        };
+  const chatMessages = await db
+    .select()
+    .from(messages)
+    .where(eq(messages.chatId, chatId))
+    .orderBy(messages.createdAt);
 
-        sendChunk();
-      },
+  // The branch that leads to the message being answered
+  const branch = parentId ? getBranch(chatMessages, parentId) : [];
+  if (parentId && branch.length === 0) {
+    return new Response("Parent message not found", { status: 400 });
+  }
+  if (!message && branch[branch.length - 1]?.role !== "user") {
+    return new Response("Only a question can be answered again", {
+      status: 400,
     });
+  }
 
-    return new Response(stream, {
-      headers: {
-        "Content-Type": "text/plain",
-        "Cache-Control": "no-cache",
-      },
-    });
-  } catch (error) {
-    console.error("Chat error:", error);
-    return new Response("Sorry, I encountered an error. Please try again.", {
-      headers: { "Content-Type": "text/plain" },
+  const userMessage = message
+    ? {
+        id: message.id ?? crypto.randomUUID(),
+        chatId,
+        parentId,
+        role: "user" as const,
+        content: message.content.trim(),
+      }
+    : null;
+
+  const history = toHistory(branch);
+  if (userMessage) {
+    history.push({
+      id: userMessage.id,
+      role: "user",
+      content: userMessage.content,
     });
   }
-}
 
-function extractLocation(message: string): string | null {
-  const patterns = [
-    /weather in ([^?]+)/i,
-    /weather for ([^?]+)/i,
-    /weather at ([^?]+)/i,
-    /weather ([^?]+)/i,
-  ];
-
-  for (const pattern of patterns) {
-    const match = message.match(pattern);
-    if (match) {
-      return match[1].trim();
-    }
-  }
-  return null;
+  const [user] = await db
+    .select({ customInstructions: users.customInstructions })
+    .from(users)
+    .where(eq(users.email, userId))
+    .limit(1);
+
+  // Facts from earlier chats that bear on the question being answered
+  const question = userMessage?.content ?? branch[branch.length - 1].content;
+  const memories = selectRelevantMemories(
+    await listMemories(userId),
+    question,
+  ).map((memory) => memory.content);
+
+  // The client's current pick wins over what was last saved on the chat
+  const chosenProvider = requestedProvider ?? chat.provider;
+  const chosenModel = requestedProvider ? requestedModel : chat.model;
+
+  // Falls back to the scripted offline provider when no model is configured
+  const provider = resolveProvider(chosenProvider);
+
+  // Known up front so the usage of every model call can point at the answer
+  const answerId = assistantMessageId ?? crypto.randomUUID();
+  const usageRecords: UsageRecord[] = [];
+  const recordUsage = (record: UsageRecord) => usageRecords.push(record);
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const encoder = new TextEncoder();
+      const send = (event: ChatStreamEvent) => {
+        if (!req.signal.aborted) {
+          controller.enqueue(encoder.encode(encodeEvent(event)));
+        }
+      };
+
+      // Collected from the events so a stopped answer can still be saved
+      let content = "";
+      const toolInvocations = new Map<string, ToolInvocation>();
+      const collect = (event: ChatStreamEvent) => {
+        if (event.type === "text-delta") content += event.delta;
+        if (event.type === "tool-result") {
+          const { type, ...invocation } = event;
+          toolInvocations.set(invocation.toolCallId, invocation);
+        }
+        send(event);
+      };
+
+      // A turn is saved at most once, even if the request is stopped while
+      // the success path is still writing it
+      let saveStarted = false;
+      const saveTurn = (answer: string, interrupted = false) => {
+        saveStarted = true;
+        return db.transaction(async (tx) => {
+          if (userMessage) {
+            await tx.insert(messages).values(userMessage);
+          }
+          await tx.insert(messages).values({
+            id: answerId,
+            chatId,
+            parentId: userMessage ? userMessage.id : parentId,
+            role: "assistant",
+            content: answer,
+            toolInvocations: Array.from(toolInvocations.values()),
+            interrupted,
+          });
+          if (usageRecords.length > 0) {
+            await tx.insert(tokenUsage).values(
+              usageRecords.map((record) => ({
+                ...record,
+                userId,
+                chatId,
+                messageId: answerId,
+              })),
+            );
+          }
+          await tx
+            .update(chats)
+            .set({ updatedAt: new Date() })
+            .where(eq(chats.id, chatId));
+        });
+      };
+
+      try {
+        // Only honour the requested model when it belongs to the chosen provider
+        const resolvedModel =
+          provider.id === chosenProvider && chosenModel
+            ? chosenModel
+            : provider.defaultModel;
+
+        const context = await prepareContext(history, {
+          provider: withUsageTracking(provider, recordUsage, "summary"),
+          model: resolvedModel,
+          prompt: {
+            chatPrompt: chat.systemPrompt,
+            instructions: user?.customInstructions,
+            memories,
+          },
+          summary:
+            chat.summary && chat.summaryMessageId
+              ? { text: chat.summary, throughMessageId: chat.summaryMessageId }
+              : null,
+          signal: req.signal,
+        });
+
+        if (context.updatedSummary) {
+          await db
+            .update(chats)
+            .set({
+              summary: context.updatedSummary.text,
+              summaryMessageId: context.updatedSummary.throughMessageId,
+            })
+            .where(eq(chats.id, chat.id));
+        }
+
+        // Text deltas and tool events are forwarded as soon as they happen
+        const result = await runAgent(context.messages, {
+          provider: withUsageTracking(provider, recordUsage),
+          model: resolvedModel,
+          system: context.system,
+          onEvent: collect,
+          signal: req.signal,
+          toolContext: { userId, chatId },
+        });
+
+        // Save the text exactly as it was streamed, step separators included
+        await saveTurn(content);
+
+        // The first answer of a chat is what its title gets generated from
+        if (
+          userMessage &&
+          !userMessage.parentId &&
+          chat.titleSource === "prompt"
+        ) {
+          after(() =>
+            updateGeneratedTitle({
+              userId,
+              chatId,
+              messageId: answerId,
+              provider,
+              model: resolvedModel,
+              question,
+              answer: content,
+            }),
+          );
+        }
+
+        send({ type: "usage", ...result.usage });
+        send({
+          type: "done",
+          finishReason: result.finishReason,
+          metadata: {
+            provider: provider.id,
+            model: resolvedModel,
+            steps: result.steps,
+            timeToFirstTokenMs: result.timeToFirstTokenMs,
+          },
+        });
+      } catch (error) {
+        const interrupted = req.signal.aborted;
+        if (!interrupted) console.error("Chat error:", error);
+
+        if (!saveStarted) {
+          try {
+            // A stopped answer keeps what was produced so far
+            await saveTurn(
+              interrupted ? content : content || ERROR_MESSAGE,
+              interrupted,
+            );
+          } catch (saveError) {
+            console.error("Failed to save chat turn:", saveError);
+          }
+        }
+
+        send({ type: "error", message: ERROR_MESSAGE });
+        send({ type: "done", finishReason: "error" });
+      } finally {
+        if (!req.signal.aborted) controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": CHAT_STREAM_CONTENT_TYPE,
+      "Cache-Control": "no-cache",
+    },
+  });
 }
 
-function extractStockSymbol(message: string): string | null {
-  const patterns = [
-    /([A-Z]{1,5}) stock/i,
-    /([A-Z]{1,5}) price/i,
-    /stock ([A-Z]{1,5})/i,
-    /price ([A-Z]{1,5})/i,
-  ];
-
-  for (const pattern of patterns) {
-    const match = message.match(pattern);
-    if (match) {
-      return match[1].toUpperCase();
+/**
+ * Replace a chat's prompt-derived title with one written by the model. The
+ * update only applies while the title still comes from the prompt, so a
+ * rename that lands while the model is thinking wins.
+ */
+async function updateGeneratedTitle({
+  userId,
+  chatId,
+  messageId,
+  provider,
+  model,
+  question,
+  answer,
+}: {
+  userId: string;
+  chatId: string;
+  messageId: string;
+  provider: LLMProvider;
+  model: string;
+  question: string;
+  answer: string;
+}) {
+  try {
+    const usageRecords: UsageRecord[] = [];
+    const title = await generateChatTitle(
+      withUsageTracking(
+        provider,
+        (record) => usageRecords.push(record),
+        "title",
+      ),
+      model,
+      question,
+      answer,
+    );
+
+    if (usageRecords.length > 0) {
+      await db
+        .insert(tokenUsage)
+        .values(
+          usageRecords.map((record) => ({
+            ...record,
+            userId,
+            chatId,
+            messageId,
+          })),
+        );
     }
+    if (!title) return;
+
+    await db
+      .update(chats)
+      .set({ title, titleSource: "generated" })
+      .where(and(eq(chats.id, chatId), eq(chats.titleSource, "prompt")));
+  } catch (error) {
+    console.error("Failed to update chat title:", error);
   }
-  return null;
 }
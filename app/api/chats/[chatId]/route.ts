@@ -3,6 +3,11 @@ import { authOptions } from "@/app/api/auth/[...nextauth]/route"
 import { db } from "@/lib/db"
 import { chats, messages } from "@/lib/db/schema"
 import { eq, and } from "drizzle-orm"
+import { isProviderId } from "@/lib/ai/providers"
+import { MAX_INSTRUCTIONS_LENGTH } from "@/lib/ai/prompt"
+import { getBranch, getSiblings } from "@/lib/chat-tree"
+
+const MAX_TITLE_LENGTH = 100
 
 export async function GET(
   req: Request,
@@ -40,6 +45,28 @@ export async function GET(
       .where(eq(messages.chatId, chatId))
       .orderBy(messages.createdAt)
 
+    // ?leafId= narrows the tree to the branch ending at that message
+    const leafId = new URL(req.url).searchParams.get("leafId")
+    if (leafId) {
+      if (!chatMessages.some((message) => message.id === leafId)) {
+        return new Response("Message not found", { status: 404 })
+      }
+
+      const branch = getBranch(chatMessages, leafId).map((message) => ({
+        ...message,
+        siblingIds: getSiblings(chatMessages, message).map(
+          (sibling) => sibling.id
+        ),
+      }))
+
+      return new Response(JSON.stringify({
+        chat: chat[0],
+        messages: branch,
+      }), {
+        headers: { "Content-Type": "application/json" },
+      })
+    }
+
     return new Response(JSON.stringify({
       chat: chat[0],
       messages: chatMessages,
@@ -90,3 +117,78 @@ export async function DELETE(
     return new Response("Internal Server Error", { status: 500 })
   }
 }
+
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ chatId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return new Response("Unauthorized", { status: 401 })
+    }
+
+    const { chatId } = await params
+    const body = await req.json()
+
+    // Only the fields present in the body are changed
+    const updates: Partial<typeof chats.$inferInsert> = { updatedAt: new Date() }
+
+    if ("provider" in body) {
+      const { provider, model } = body
+      if (provider !== null && !isProviderId(provider)) {
+        return new Response("Unknown provider", { status: 400 })
+      }
+      updates.provider = provider
+      updates.model = provider && typeof model === "string" ? model : null
+    }
+
+    if ("systemPrompt" in body) {
+      const { systemPrompt } = body
+      if (systemPrompt !== null && typeof systemPrompt !== "string") {
+        return new Response("systemPrompt must be a string or null", { status: 400 })
+      }
+      if (systemPrompt && systemPrompt.length > MAX_INSTRUCTIONS_LENGTH) {
+        return new Response(`systemPrompt is limited to ${MAX_INSTRUCTIONS_LENGTH} characters`, { status: 400 })
+      }
+      updates.systemPrompt = systemPrompt?.trim() || null
+    }
+
+    if ("title" in body) {
+      const title = typeof body.title === "string" ? body.title.trim() : ""
+      if (!title) {
+        return new Response("title must be a non-empty string", { status: 400 })
+      }
+      if (title.length > MAX_TITLE_LENGTH) {
+        return new Response(`title is limited to ${MAX_TITLE_LENGTH} characters`, { status: 400 })
+      }
+      // A title the user picked is never replaced by a generated one
+      updates.title = title
+      updates.titleSource = "manual"
+    }
+
+    // Scoping the update to the user's chats doubles as the ownership check
+    const [updatedChat] = await db
+      .update(chats)
+      .set(updates)
+      .where(
+        and(
+          eq(chats.id, chatId),
+          eq(chats.userId, session.user.email)
+        )
+      )
+      .returning()
+
+    if (!updatedChat) {
+      return new Response("Chat not found", { status: 404 })
+    }
+
+    return new Response(JSON.stringify(updatedChat), {
+      headers: { "Content-Type": "application/json" },
+    })
+  } catch (error) {
+    console.error("Failed to update chat:", error)
+    return new Response("Internal Server Error", { status: 500 })
+  }
+}
@@ -1,30 +1,28 @@
 import { getServerSession } from "next-auth"
 import { authOptions } from "@/app/api/auth/[...nextauth]/route"
 import { db } from "@/lib/db"
-import { chats, messages } from "@/lib/db/schema"
+import { chats, tokenUsage } from "@/lib/db/schema"
+import { usageTotals } from "@/lib/db/usage"
 import { eq, and } from "drizzle-orm"
 
-export async function POST(
+/**
+ * Token usage and cost of a chat, in total and per answer
+ */
+export async function GET(
   req: Request,
   { params }: { params: Promise<{ chatId: string }> }
 ) {
   try {
     const session = await getServerSession(authOptions)
-    
+
     if (!session?.user?.email) {
       return new Response("Unauthorized", { status: 401 })
     }
 
     const { chatId } = await params
-    const { role, content, toolInvocations } = await req.json()
-
-    if (!role || !content) {
-      return new Response("Role and content are required", { status: 400 })
-    }
 
-    // Verify chat ownership
-    const chat = await db
-      .select()
+    const [chat] = await db
+      .select({ id: chats.id })
       .from(chats)
       .where(
         and(
@@ -34,32 +32,29 @@ export async function POST(
       )
       .limit(1)
 
-    if (chat.length === 0) {
+    if (!chat) {
       return new Response("Chat not found", { status: 404 })
     }
 
-    // Save message
-    const newMessage = await db
-      .insert(messages)
-      .values({
-        chatId,
-        role,
-        content,
-        toolInvocations: toolInvocations || undefined,
-      })
-      .returning()
-
-    // Update chat's updatedAt timestamp
-    await db
-      .update(chats)
-      .set({ updatedAt: new Date() })
-      .where(eq(chats.id, chatId))
-
-    return new Response(JSON.stringify(newMessage[0]), {
+    const [totals] = await db
+      .select(usageTotals)
+      .from(tokenUsage)
+      .where(eq(tokenUsage.chatId, chatId))
+
+    const byMessage = await db
+      .select({ messageId: tokenUsage.messageId, ...usageTotals })
+      .from(tokenUsage)
+      .where(eq(tokenUsage.chatId, chatId))
+      .groupBy(tokenUsage.messageId)
+
+    return new Response(JSON.stringify({
+      totals,
+      messages: byMessage,
+    }), {
       headers: { "Content-Type": "application/json" },
     })
   } catch (error) {
-    console.error("Failed to save message:", error)
+    console.error("Failed to fetch chat usage:", error)
     return new Response("Internal Server Error", { status: 500 })
   }
 }
@@ -2,6 +2,8 @@ import { getServerSession } from "next-auth";
 import { db } from "@/lib/db";
 import { chats, users } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
+import { isProviderId } from "@/lib/ai/providers";
+import { MAX_INSTRUCTIONS_LENGTH } from "@/lib/ai/prompt";
 
 export async function GET() {
   try {
@@ -50,7 +52,7 @@ export async function POST(req: Request) {
       return new Response("Unauthorized", { status: 401 });
     }
 
-    const { title } = await req.json();
+    const { title, provider, model, systemPrompt } = await req.json();
 
     if (!title) {
       return new Response("Title is required", { status: 400 });
@@ -72,6 +74,12 @@ export async function POST(req: Request) {
       .values({
         userId: session.user.email,
         title: title.slice(0, 100),
+        provider: isProviderId(provider) ? provider : null,
+        model: isProviderId(provider) && typeof model === "string" ? model : null,
+        systemPrompt:
+          typeof systemPrompt === "string" && systemPrompt.trim()
+            ? systemPrompt.trim().slice(0, MAX_INSTRUCTIONS_LENGTH)
+            : null,
       })
       .returning();
 
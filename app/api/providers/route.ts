@@ -0,0 +1,18 @@
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/app/api/auth/[...nextauth]/route"
+import { DEFAULT_PROVIDER, listProviders } from "@/lib/ai/providers"
+
+export async function GET() {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user?.email) {
+    return new Response("Unauthorized", { status: 401 })
+  }
+
+  return new Response(JSON.stringify({
+    defaultProvider: DEFAULT_PROVIDER,
+    providers: listProviders(),
+  }), {
+    headers: { "Content-Type": "application/json" },
+  })
+}
@@ -0,0 +1,57 @@
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/app/api/auth/[...nextauth]/route"
+import { cached, toolCacheKey } from "@/lib/ai/tool-cache"
+import { DataProviderError } from "@/lib/api/http"
+import { getStockBackend, getStockSeries } from "@/lib/api/stocks"
+import { STOCK_RANGES, type StockRange } from "@/lib/api/types"
+
+// Intraday bars go stale quickly; weekly ones hardly change within a day
+const TTL_SECONDS: Record<StockRange, number> = {
+  "1D": 5 * 60,
+  "5D": 15 * 60,
+  "1M": 60 * 60,
+  "6M": 6 * 60 * 60,
+  "1Y": 6 * 60 * 60,
+}
+
+function isStockRange(value: string | null): value is StockRange {
+  return STOCK_RANGES.includes(value as StockRange)
+}
+
+/**
+ * Price history for ?symbol= over ?range=, for the stock card's range
+ * switcher. Results are shared through the tool cache.
+ */
+export async function GET(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return new Response("Unauthorized", { status: 401 })
+    }
+
+    const { searchParams } = new URL(req.url)
+    const symbol = searchParams.get("symbol")?.trim().toUpperCase()
+    const range = searchParams.get("range")
+
+    if (!symbol) {
+      return new Response("symbol is required", { status: 400 })
+    }
+    if (!isStockRange(range)) {
+      return new Response(`range must be one of ${STOCK_RANGES.join(", ")}`, { status: 400 })
+    }
+
+    const key = toolCacheKey("stockSeries", getStockBackend().id, { symbol, range })
+    const series = await cached(key, TTL_SECONDS[range], () => getStockSeries(symbol, range, { signal: req.signal }))
+
+    return new Response(JSON.stringify(series), {
+      headers: { "Content-Type": "application/json" },
+    })
+  } catch (error) {
+    if (error instanceof DataProviderError) {
+      return new Response(error.message, { status: error.status === 404 ? 404 : 502 })
+    }
+    console.error("Failed to fetch stock history:", error)
+    return new Response("Internal Server Error", { status: 500 })
+  }
+}
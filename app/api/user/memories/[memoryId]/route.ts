@@ -0,0 +1,86 @@
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/app/api/auth/[...nextauth]/route"
+import { db } from "@/lib/db"
+import { memories } from "@/lib/db/schema"
+import { eq, and } from "drizzle-orm"
+import { MAX_MEMORY_LENGTH } from "@/lib/ai/memory"
+
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ memoryId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return new Response("Unauthorized", { status: 401 })
+    }
+
+    const { memoryId } = await params
+    const { content } = await req.json()
+
+    if (typeof content !== "string" || !content.trim()) {
+      return new Response("content is required", { status: 400 })
+    }
+    if (content.trim().length > MAX_MEMORY_LENGTH) {
+      return new Response(`content is limited to ${MAX_MEMORY_LENGTH} characters`, { status: 400 })
+    }
+
+    // Scoping the update to the user's memories doubles as the ownership check
+    const [memory] = await db
+      .update(memories)
+      .set({ content: content.trim(), updatedAt: new Date() })
+      .where(
+        and(
+          eq(memories.id, memoryId),
+          eq(memories.userId, session.user.email)
+        )
+      )
+      .returning()
+
+    if (!memory) {
+      return new Response("Memory not found", { status: 404 })
+    }
+
+    return new Response(JSON.stringify(memory), {
+      headers: { "Content-Type": "application/json" },
+    })
+  } catch (error) {
+    console.error("Failed to update memory:", error)
+    return new Response("Internal Server Error", { status: 500 })
+  }
+}
+
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ memoryId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return new Response("Unauthorized", { status: 401 })
+    }
+
+    const { memoryId } = await params
+
+    const [memory] = await db
+      .delete(memories)
+      .where(
+        and(
+          eq(memories.id, memoryId),
+          eq(memories.userId, session.user.email)
+        )
+      )
+      .returning({ id: memories.id })
+
+    if (!memory) {
+      return new Response("Memory not found", { status: 404 })
+    }
+
+    return new Response("Memory deleted successfully", { status: 200 })
+  } catch (error) {
+    console.error("Failed to delete memory:", error)
+    return new Response("Internal Server Error", { status: 500 })
+  }
+}
@@ -0,0 +1,56 @@
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/app/api/auth/[...nextauth]/route"
+import { MAX_MEMORIES, MAX_MEMORY_LENGTH } from "@/lib/ai/memory"
+import { listMemories, saveMemory } from "@/lib/memories"
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return new Response("Unauthorized", { status: 401 })
+    }
+
+    const memories = await listMemories(session.user.email)
+
+    return new Response(JSON.stringify({ memories }), {
+      headers: { "Content-Type": "application/json" },
+    })
+  } catch (error) {
+    console.error("Failed to fetch memories:", error)
+    return new Response("Internal Server Error", { status: 500 })
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return new Response("Unauthorized", { status: 401 })
+    }
+
+    const { content } = await req.json()
+
+    if (typeof content !== "string" || !content.trim()) {
+      return new Response("content is required", { status: 400 })
+    }
+    if (content.trim().length > MAX_MEMORY_LENGTH) {
+      return new Response(`content is limited to ${MAX_MEMORY_LENGTH} characters`, { status: 400 })
+    }
+
+    const saved = await saveMemory(session.user.email, content.trim())
+
+    if (saved.status === "full") {
+      return new Response(`No more than ${MAX_MEMORIES} memories can be saved`, { status: 409 })
+    }
+
+    return new Response(JSON.stringify(saved.memory), {
+      status: saved.status === "saved" ? 201 : 200,
+      headers: { "Content-Type": "application/json" },
+    })
+  } catch (error) {
+    console.error("Failed to save memory:", error)
+    return new Response("Internal Server Error", { status: 500 })
+  }
+}
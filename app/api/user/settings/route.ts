@@ -0,0 +1,75 @@
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/app/api/auth/[...nextauth]/route"
+import { db } from "@/lib/db"
+import { users } from "@/lib/db/schema"
+import { eq } from "drizzle-orm"
+import { MAX_INSTRUCTIONS_LENGTH } from "@/lib/ai/prompt"
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return new Response("Unauthorized", { status: 401 })
+    }
+
+    const [user] = await db
+      .select({ customInstructions: users.customInstructions })
+      .from(users)
+      .where(eq(users.email, session.user.email))
+      .limit(1)
+
+    return new Response(JSON.stringify({
+      customInstructions: user?.customInstructions ?? null,
+    }), {
+      headers: { "Content-Type": "application/json" },
+    })
+  } catch (error) {
+    console.error("Failed to fetch settings:", error)
+    return new Response("Internal Server Error", { status: 500 })
+  }
+}
+
+export async function PATCH(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return new Response("Unauthorized", { status: 401 })
+    }
+
+    const { customInstructions } = await req.json()
+
+    if (customInstructions !== null && typeof customInstructions !== "string") {
+      return new Response("customInstructions must be a string or null", { status: 400 })
+    }
+    if (customInstructions && customInstructions.length > MAX_INSTRUCTIONS_LENGTH) {
+      return new Response(`customInstructions is limited to ${MAX_INSTRUCTIONS_LENGTH} characters`, { status: 400 })
+    }
+
+    const value = customInstructions?.trim() || null
+
+    // The user row may not exist yet if they have never created a chat
+    const [user] = await db
+      .insert(users)
+      .values({
+        id: session.user.email,
+        email: session.user.email,
+        name: session.user.name || null,
+        image: session.user.image || null,
+        customInstructions: value,
+      })
+      .onConflictDoUpdate({
+        target: users.id,
+        set: { customInstructions: value, updatedAt: new Date() },
+      })
+      .returning({ customInstructions: users.customInstructions })
+
+    return new Response(JSON.stringify(user), {
+      headers: { "Content-Type": "application/json" },
+    })
+  } catch (error) {
+    console.error("Failed to update settings:", error)
+    return new Response("Internal Server Error", { status: 500 })
+  }
+}
@@ -0,0 +1,42 @@
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/app/api/auth/[...nextauth]/route"
+import { db } from "@/lib/db"
+import { tokenUsage } from "@/lib/db/schema"
+import { usageTotals } from "@/lib/db/usage"
+import { desc, eq } from "drizzle-orm"
+
+/**
+ * Token usage and cost across all of the user's chats, including deleted
+ * ones, in total and per model
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return new Response("Unauthorized", { status: 401 })
+    }
+
+    const [totals] = await db
+      .select(usageTotals)
+      .from(tokenUsage)
+      .where(eq(tokenUsage.userId, session.user.email))
+
+    const byModel = await db
+      .select({ provider: tokenUsage.provider, model: tokenUsage.model, ...usageTotals })
+      .from(tokenUsage)
+      .where(eq(tokenUsage.userId, session.user.email))
+      .groupBy(tokenUsage.provider, tokenUsage.model)
+      .orderBy(desc(usageTotals.costUsd))
+
+    return new Response(JSON.stringify({
+      totals,
+      models: byModel,
+    }), {
+      headers: { "Content-Type": "application/json" },
+    })
+  } catch (error) {
+    console.error("Failed to fetch usage:", error)
+    return new Response("Internal Server Error", { status: 500 })
+  }
+}
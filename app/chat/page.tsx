@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import { useSession } from "next-auth/react";
 import { ChatInterface } from "@/components/chat/ChatInterface";
 import { ChatSidebar } from "@/components/ChatSidebar";
@@ -14,63 +14,57 @@ export default function ChatPage() {
 
   const {
     currentChatId,
-    saveMessage,
     createChat,
     loadChat,
     startNewChat,
     setCurrentChatId,
     useLocalStorage,
+    chatSettings,
+    updateChatSettings,
   } = useChatManager();
 
+  // The chat is created mid-submit, after the callbacks below were bound
+  const chatIdRef = useRef(currentChatId);
+  useEffect(() => {
+    chatIdRef.current = currentChatId;
+  }, [currentChatId]);
+
   const {
     messages,
     input,
     isLoading,
     handleInputChange,
     handleSubmit,
+    sendMessage,
+    regenerate,
+    editMessage,
+    selectVariant,
+    stop,
     setMessages,
     clearMessages,
     setQuickInput,
   } = useChat({
     api: "/api/chat",
-    onFinish: async (message) => {
-      // Save assistant message to database if we have a chat
-      if (currentChatId) {
-        await saveMessage(
-          currentChatId,
-          message.role,
-          message.content,
-          message.toolInvocations,
+    body: chatSettings,
+    // The server saves messages; the first question of a new chat creates it
+    resolveChatId: async (firstMessage) => {
+      if (!chatIdRef.current) {
+        chatIdRef.current = await createChat(firstMessage);
+      }
+      return chatIdRef.current;
+    },
+    // Lets the sidebar pick up the new order and the generated title
+    onFinish: async () => {
+      if (chatIdRef.current) {
+        window.dispatchEvent(
+          new CustomEvent("chatUpdated", {
+            detail: { chatId: chatIdRef.current },
+          }),
         );
       }
     },
   });
 
-  // Handle chat submission with proper state management
-  const handleChatSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!input.trim() || isLoading) return;
-
-    const userInput = input.trim();
-
-    // Handle chat creation and user message saving
-    let chatId = currentChatId;
-    if (!currentChatId) {
-      // Create new chat
-      chatId = await createChat(userInput);
-      if (chatId) {
-        // Save user message to new chat
-        await saveMessage(chatId, "user", userInput);
-      }
-    } else {
-      // Save user message to existing chat
-      await saveMessage(currentChatId, "user", userInput);
-    }
-
-    // Submit to UI (this will handle the AI response)
-    handleSubmit(e);
-  };
-
   // Handle quick action inputs
   const handleQuickAction = (action: string) => {
     setQuickInput(action);
@@ -131,11 +125,19 @@ export default function ChatPage() {
           input={input}
           isLoading={isLoading}
           onInputChange={handleInputChange}
-          onSubmit={handleChatSubmit}
+          onSubmit={handleSubmit}
+          onSendMessage={sendMessage}
+          onStop={stop}
+          onRegenerate={regenerate}
+          onSelectVariant={selectVariant}
+          onEditMessage={editMessage}
           onQuickAction={handleQuickAction}
           title={currentChatId ? "Chat" : "New Chat"}
+          chatId={currentChatId}
           onToggleSidebar={() => setSidebarOpen(!sidebarOpen)}
           useLocalStorage={useLocalStorage}
+          chatSettings={chatSettings}
+          onChatSettingsChange={updateChatSettings}
         />
       </div>
     </div>
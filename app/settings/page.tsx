@@ -0,0 +1,256 @@
+"use client";
+
+import type React from "react";
+import { useEffect, useState } from "react";
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { toast } from "sonner";
+import { ArrowLeft, Bot, Plus, Trash2 } from "lucide-react";
+import { Navbar } from "@/components/Navbar";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { MAX_MEMORY_LENGTH } from "@/lib/ai/memory";
+import { MAX_INSTRUCTIONS_LENGTH } from "@/lib/ai/prompt";
+
+interface Memory {
+  id: string;
+  content: string;
+  source: "user" | "assistant";
+  createdAt: string;
+}
+
+export default function SettingsPage() {
+  const { status } = useSession();
+  const router = useRouter();
+  const [customInstructions, setCustomInstructions] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (status === "unauthenticated") {
+      router.push("/signin");
+      return;
+    }
+    if (status !== "authenticated") return;
+
+    fetch("/api/user/settings")
+      .then((response) => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return response.json();
+      })
+      .then((data) => setCustomInstructions(data.customInstructions || ""))
+      .catch((error) => {
+        console.error("Failed to load settings:", error);
+        toast.error("Failed to load settings");
+      })
+      .finally(() => setIsLoading(false));
+  }, [status, router]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch("/api/user/settings", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          customInstructions: customInstructions.trim() || null,
+        }),
+      });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      toast.success("Settings saved");
+    } catch (error) {
+      console.error("Failed to save settings:", error);
+      toast.error("Failed to save settings");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <main className="container mx-auto px-4 py-8 max-w-2xl space-y-6">
+        <Button variant="ghost" size="sm" asChild>
+          <Link href="/chat">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to chat
+          </Link>
+        </Button>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Custom instructions</CardTitle>
+            <CardDescription>
+              Applied to every chat: how the assistant should talk to you,
+              which units to use, what your role is. A chat&apos;s own
+              instructions can change the persona but not these.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Label htmlFor="custom-instructions">Instructions</Label>
+            <Textarea
+              id="custom-instructions"
+              value={customInstructions}
+              onChange={(e) => setCustomInstructions(e.target.value)}
+              placeholder="e.g. I'm a commodities trader in Berlin. Use metric units and keep answers short."
+              maxLength={MAX_INSTRUCTIONS_LENGTH}
+              rows={8}
+              disabled={isLoading}
+            />
+            <p className="text-xs text-muted-foreground text-right">
+              {customInstructions.length} / {MAX_INSTRUCTIONS_LENGTH}
+            </p>
+          </CardContent>
+          <CardFooter className="justify-end">
+            <Button onClick={handleSave} disabled={isLoading || isSaving}>
+              {isSaving ? "Saving..." : "Save"}
+            </Button>
+          </CardFooter>
+        </Card>
+
+        {status === "authenticated" && <MemoriesCard />}
+      </main>
+    </div>
+  );
+}
+
+/**
+ * Review, add and delete the facts the assistant remembers across chats.
+ */
+function MemoriesCard() {
+  const [memories, setMemories] = useState<Memory[]>([]);
+  const [draft, setDraft] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAdding, setIsAdding] = useState(false);
+
+  useEffect(() => {
+    fetch("/api/user/memories")
+      .then((response) => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return response.json();
+      })
+      .then((data) => setMemories(data.memories))
+      .catch((error) => {
+        console.error("Failed to load memories:", error);
+        toast.error("Failed to load memories");
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+
+    setIsAdding(true);
+    try {
+      const response = await fetch("/api/user/memories", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ content: draft.trim() }),
+      });
+      if (!response.ok) throw new Error(await response.text());
+      const memory: Memory = await response.json();
+      setMemories((prev) => [
+        memory,
+        ...prev.filter((item) => item.id !== memory.id),
+      ]);
+      setDraft("");
+    } catch (error) {
+      console.error("Failed to save memory:", error);
+      toast.error("Failed to save memory", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    const previous = memories;
+    setMemories((prev) => prev.filter((memory) => memory.id !== id));
+    try {
+      const response = await fetch(`/api/user/memories/${id}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    } catch (error) {
+      console.error("Failed to delete memory:", error);
+      toast.error("Failed to delete memory");
+      setMemories(previous);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Memory</CardTitle>
+        <CardDescription>
+          Facts the assistant keeps across chats, such as the team you support
+          or the stocks you watch. It adds them when you mention them; delete
+          anything you don&apos;t want it to know.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleAdd} className="flex gap-2">
+          <Input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="e.g. Supports Ferrari in F1"
+            maxLength={MAX_MEMORY_LENGTH}
+            disabled={isLoading || isAdding}
+          />
+          <Button
+            type="submit"
+            size="icon"
+            disabled={isLoading || isAdding || !draft.trim()}
+          >
+            <Plus className="h-4 w-4" />
+            <span className="sr-only">Add memory</span>
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : memories.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Nothing remembered yet.
+          </p>
+        ) : (
+          <ul className="divide-y divide-border">
+            {memories.map((memory) => (
+              <li key={memory.id} className="flex items-center gap-3 py-2">
+                {memory.source === "assistant" && (
+                  <Bot
+                    className="h-4 w-4 text-muted-foreground flex-shrink-0"
+                    aria-label="Saved by the assistant"
+                  />
+                )}
+                <span className="text-sm flex-1">{memory.content}</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 hover:text-destructive"
+                  onClick={() => handleDelete(memory.id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                  <span className="sr-only">Delete memory</span>
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,8 +1,9 @@
 "use client";
 
 import type React from "react";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import {
@@ -12,13 +13,17 @@ import {
   AlertCircle,
   RefreshCw,
   Sparkles,
+  Settings,
+  Pencil,
 } from "lucide-react";
+import Link from "next/link";
 import { toast } from "sonner";
 import { Badge } from "@/components/ui/badge";
 
 interface Chat {
   id: string;
   title: string;
+  titleSource?: "prompt" | "generated" | "manual";
   createdAt: string;
   updatedAt: string;
 }
@@ -44,6 +49,10 @@ function formatTimeAgo(date: string): string {
   return `${Math.floor(diffInSeconds / 86400)} days ago`;
 }
 
+// Titles are generated after the first answer; check back a few times
+const TITLE_POLL_INTERVAL_MS = 2000;
+const TITLE_POLL_ATTEMPTS = 5;
+
 export function ChatSidebar({
   open,
   onToggle,
@@ -56,6 +65,11 @@ export function ChatSidebar({
   const [error, setError] = useState<string | null>(null);
   const [deletingChatId, setDeletingChatId] = useState<string | null>(null);
   const [useLocalStorage, setUseLocalStorage] = useState(false);
+  const [renamingChatId, setRenamingChatId] = useState<string | null>(null);
+  const [renameDraft, setRenameDraft] = useState("");
+  // Enter, Escape and blur can all end a rename; only the first one counts
+  const renameDoneRef = useRef(false);
+  const titlePollRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   useEffect(() => {
     loadChats();
@@ -65,14 +79,35 @@ export function ChatSidebar({
       loadChats();
     };
 
+    // After an answer, refresh until the chat's generated title shows up
+    const handleChatUpdated = (event: Event) => {
+      const { chatId } = (event as CustomEvent<{ chatId: string }>).detail;
+      if (titlePollRef.current) clearTimeout(titlePollRef.current);
+
+      const poll = async (attempt: number) => {
+        const list = await loadChats();
+        const chat = list?.find((item) => item.id === chatId);
+        if (chat?.titleSource === "prompt" && attempt < TITLE_POLL_ATTEMPTS) {
+          titlePollRef.current = setTimeout(
+            () => poll(attempt + 1),
+            TITLE_POLL_INTERVAL_MS,
+          );
+        }
+      };
+      poll(0);
+    };
+
     window.addEventListener("chatCreated", handleChatCreated);
+    window.addEventListener("chatUpdated", handleChatUpdated);
 
     return () => {
       window.removeEventListener("chatCreated", handleChatCreated);
+      window.removeEventListener("chatUpdated", handleChatUpdated);
+      if (titlePollRef.current) clearTimeout(titlePollRef.current);
     };
   }, []);
 
-  const loadChats = async () => {
+  const loadChats = async (): Promise<Chat[] | undefined> => {
     try {
       setError(null);
       let response;
@@ -95,8 +130,9 @@ export function ChatSidebar({
       if (!response.ok) {
         throw new Error(`Failed to load chats: ${response.status}`);
       }
-      const data = await response.json();
+      const data: Chat[] = await response.json();
       setChats(data);
+      return data;
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : "Failed to load chats";
@@ -159,6 +195,47 @@ export function ChatSidebar({
     }
   };
 
+  const startRename = (chat: Chat, e: React.MouseEvent) => {
+    e.stopPropagation();
+    renameDoneRef.current = false;
+    setRenamingChatId(chat.id);
+    setRenameDraft(chat.title);
+  };
+
+  const saveRename = async (chatId: string) => {
+    if (renameDoneRef.current) return;
+    renameDoneRef.current = true;
+    const title = renameDraft.trim();
+    const chat = chats.find((item) => item.id === chatId);
+    setRenamingChatId(null);
+    if (!chat || !title || title === chat.title) return;
+
+    // Show the new title right away and put the old one back on failure
+    setChats((prev) =>
+      prev.map((item) =>
+        item.id === chatId ? { ...item, title, titleSource: "manual" } : item,
+      ),
+    );
+    try {
+      const response = await fetch(`/api/chats/${chatId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title }),
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to rename chat: ${response.status}`);
+      }
+    } catch (error) {
+      setChats((prev) =>
+        prev.map((item) => (item.id === chatId ? chat : item)),
+      );
+      toast.error("Error renaming chat", {
+        description:
+          error instanceof Error ? error.message : "Failed to rename chat",
+      });
+    }
+  };
+
   const handleRetry = () => {
     setLoading(true);
     loadChats();
@@ -240,9 +317,31 @@ export function ChatSidebar({
                       <MessageSquare className="h-3 md:h-4 w-3 md:w-4 text-sidebar-foreground/70" />
                     </div>
                     <div className="flex-1 min-w-0">
-                      <p className="text-sm md:text-base font-medium truncate text-sidebar-foreground">
-                        {chat.title}
-                      </p>
+                      {renamingChatId === chat.id ? (
+                        <Input
+                          value={renameDraft}
+                          autoFocus
+                          maxLength={100}
+                          className="h-7 text-sm"
+                          onClick={(e) => e.stopPropagation()}
+                          onChange={(e) => setRenameDraft(e.target.value)}
+                          onBlur={() => saveRename(chat.id)}
+                          onKeyDown={(e) => {
+                            if (e.key === "Enter") {
+                              e.preventDefault();
+                              saveRename(chat.id);
+                            }
+                            if (e.key === "Escape") {
+                              renameDoneRef.current = true;
+                              setRenamingChatId(null);
+                            }
+                          }}
+                        />
+                      ) : (
+                        <p className="text-sm md:text-base font-medium truncate text-sidebar-foreground">
+                          {chat.title}
+                        </p>
+                      )}
                       <div className="flex items-center gap-1 md:gap-2 mt-1">
                         <p className="text-xs text-sidebar-foreground/60">
                           {formatTimeAgo(chat.updatedAt)}
@@ -258,6 +357,15 @@ export function ChatSidebar({
                       </div>
                     </div>
                   </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="opacity-0 group-hover:opacity-100 transition-all duration-200 h-6 w-6 md:h-8 md:w-8 p-0"
+                    onClick={(e) => startRename(chat, e)}
+                  >
+                    <Pencil className="h-3 md:h-4 w-3 md:w-4" />
+                    <span className="sr-only">Rename chat</span>
+                  </Button>
                   <Button
                     variant="ghost"
                     size="sm"
@@ -280,7 +388,13 @@ export function ChatSidebar({
         <div className="mt-4 md:mt-6 pt-3 md:pt-4 border-t border-sidebar-border">
           <div className="flex items-center gap-2 text-sidebar-foreground/50">
             <Sparkles className="h-3 md:h-4 w-3 md:w-4" />
-            <span className="text-xs font-medium">AI Assistant</span>
+            <span className="text-xs font-medium flex-1">AI Assistant</span>
+            <Button variant="ghost" size="sm" className="h-6 w-6 p-0" asChild>
+              <Link href="/settings">
+                <Settings className="h-3 md:h-4 w-3 md:w-4" />
+                <span className="sr-only">Settings</span>
+              </Link>
+            </Button>
           </div>
         </div>
       </CardContent>
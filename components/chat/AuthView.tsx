@@ -0,0 +1,29 @@
+"use client";
+
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { MessageCircle } from "lucide-react";
+
+export function AuthView() {
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <Card className="w-full max-w-md text-center p-8 border-0 shadow-xl">
+        <CardContent className="space-y-6">
+          <div className="w-16 h-16 bg-primary/10 rounded-2xl flex items-center justify-center mx-auto">
+            <MessageCircle className="h-8 w-8 text-primary" />
+          </div>
+          <div className="space-y-2">
+            <h1 className="text-2xl font-bold">Sign in to continue</h1>
+            <p className="text-muted-foreground">
+              Your chats are saved to your account.
+            </p>
+          </div>
+          <Button asChild size="lg" className="w-full">
+            <Link href="/signin">Sign in</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,337 @@
+"use client";
+
+import type React from "react";
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Bot,
+  ChevronLeft,
+  ChevronRight,
+  Menu,
+  Pencil,
+  RefreshCw,
+  Send,
+  Square,
+  User,
+} from "lucide-react";
+import { ToolInvocations } from "@/components/chat/ToolInvocations";
+import { ModelPicker } from "@/components/chat/ModelPicker";
+import { ChatPromptDialog } from "@/components/chat/ChatPromptDialog";
+import { UsageSummary } from "@/components/chat/UsageSummary";
+import type { BranchMessage } from "@/hooks/useChat";
+import type { ChatSettings } from "@/hooks/useChatManager";
+
+interface ChatInterfaceProps {
+  messages: BranchMessage[];
+  input: string;
+  isLoading: boolean;
+  onInputChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onSubmit: (e: React.FormEvent) => void;
+  onSendMessage: (content: string) => void;
+  onStop: () => void;
+  onRegenerate: () => void;
+  onSelectVariant: (messageId: string) => void;
+  onEditMessage: (messageId: string, content: string) => void;
+  onQuickAction: (action: string) => void;
+  title: string;
+  chatId?: string | null;
+  onToggleSidebar: () => void;
+  useLocalStorage?: boolean;
+  chatSettings: ChatSettings;
+  onChatSettingsChange: (settings: Partial<ChatSettings>) => void;
+}
+
+const QUICK_ACTIONS = [
+  "What's the weather in London?",
+  "Next F1 race",
+  "AAPL stock price",
+];
+
+export function ChatInterface({
+  messages,
+  input,
+  isLoading,
+  onInputChange,
+  onSubmit,
+  onSendMessage,
+  onStop,
+  onRegenerate,
+  onSelectVariant,
+  onEditMessage,
+  onQuickAction,
+  title,
+  chatId,
+  onToggleSidebar,
+  useLocalStorage,
+  chatSettings,
+  onChatSettingsChange,
+}: ChatInterfaceProps) {
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const [editing, setEditing] = useState<{ id: string; draft: string } | null>(
+    null,
+  );
+
+  const submitEdit = () => {
+    if (!editing || !editing.draft.trim()) return;
+    onEditMessage(editing.id, editing.draft);
+    setEditing(null);
+  };
+
+  // Keep the latest message in view while the answer streams in
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [messages]);
+
+  return (
+    <div className="flex flex-col h-full">
+      <header className="flex items-center gap-3 px-4 h-14 border-b border-border">
+        <Button variant="ghost" size="icon" onClick={onToggleSidebar}>
+          <Menu className="h-5 w-5" />
+          <span className="sr-only">Toggle sidebar</span>
+        </Button>
+        <h1 className="font-semibold truncate flex-1">{title}</h1>
+        <UsageSummary chatId={chatId} isLoading={isLoading} />
+        <ModelPicker
+          value={chatSettings}
+          onChange={onChatSettingsChange}
+          disabled={isLoading}
+        />
+        <ChatPromptDialog
+          value={chatSettings.systemPrompt}
+          onSave={(systemPrompt) => onChatSettingsChange({ systemPrompt })}
+          disabled={isLoading}
+        />
+        {useLocalStorage && (
+          <Badge variant="outline" className="text-xs">
+            Local storage
+          </Badge>
+        )}
+      </header>
+
+      <ScrollArea className="flex-1 min-h-0">
+        <div className="max-w-3xl mx-auto px-4 py-6 space-y-6">
+          {messages.length === 0 ? (
+            <div className="text-center py-16">
+              <div className="w-16 h-16 bg-primary/10 rounded-2xl flex items-center justify-center mx-auto mb-4">
+                <Bot className="h-8 w-8 text-primary" />
+              </div>
+              <p className="font-medium mb-4">How can I help you today?</p>
+              <div className="flex flex-wrap justify-center gap-2">
+                {QUICK_ACTIONS.map((action) => (
+                  <Button
+                    key={action}
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onQuickAction(action)}
+                  >
+                    {action}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          ) : (
+            messages.map((message, index) => (
+              <div
+                key={message.id}
+                className={`flex gap-3 ${
+                  message.role === "user" ? "justify-end" : "justify-start"
+                }`}
+              >
+                {message.role === "assistant" && (
+                  <div className="w-8 h-8 rounded-lg bg-primary/10 flex items-center justify-center flex-shrink-0">
+                    <Bot className="h-4 w-4 text-primary" />
+                  </div>
+                )}
+                <div
+                  className={`flex flex-col gap-3 min-w-0 max-w-[85%] ${
+                    message.role === "user" ? "items-end" : ""
+                  }`}
+                >
+                  {editing?.id === message.id ? (
+                    <div className="flex flex-col gap-2 w-full min-w-[20rem]">
+                      <Textarea
+                        value={editing.draft}
+                        onChange={(e) =>
+                          setEditing({ id: message.id, draft: e.target.value })
+                        }
+                        autoFocus
+                      />
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setEditing(null)}
+                        >
+                          Cancel
+                        </Button>
+                        <Button
+                          size="sm"
+                          onClick={submitEdit}
+                          disabled={isLoading || !editing.draft.trim()}
+                        >
+                          Save & send
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (message.content || message.isThinking) && (
+                    <div
+                      className={`rounded-xl px-4 py-2 whitespace-pre-wrap ${
+                        message.role === "user"
+                          ? "bg-primary text-primary-foreground"
+                          : "bg-muted"
+                      }`}
+                    >
+                      {message.isThinking ? (
+                        <span className="text-muted-foreground animate-pulse">
+                          Thinking...
+                        </span>
+                      ) : (
+                        message.content
+                      )}
+                    </div>
+                  )}
+                  {message.toolInvocations && (
+                    <ToolInvocations
+                      invocations={message.toolInvocations}
+                      // Only the latest answer can still be replied to
+                      onReply={
+                        index === messages.length - 1 && !isLoading
+                          ? onSendMessage
+                          : undefined
+                      }
+                    />
+                  )}
+                  {message.interrupted && (
+                    <p className="text-xs text-muted-foreground">
+                      Stopped by user
+                    </p>
+                  )}
+                  {message.role === "user" && editing?.id !== message.id && (
+                    <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <VariantPager
+                        message={message}
+                        onSelect={onSelectVariant}
+                        disabled={isLoading}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        disabled={isLoading}
+                        onClick={() =>
+                          setEditing({ id: message.id, draft: message.content })
+                        }
+                      >
+                        <Pencil className="h-3 w-3" />
+                        <span className="sr-only">Edit message</span>
+                      </Button>
+                    </div>
+                  )}
+                  {message.role === "assistant" && !message.isThinking && (
+                    <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <VariantPager
+                        message={message}
+                        onSelect={onSelectVariant}
+                        disabled={isLoading}
+                      />
+                      {index === messages.length - 1 && !isLoading && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 px-2 text-xs"
+                          onClick={onRegenerate}
+                        >
+                          <RefreshCw className="h-3 w-3 mr-1" />
+                          Regenerate
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </div>
+                {message.role === "user" && (
+                  <div className="w-8 h-8 rounded-lg bg-muted flex items-center justify-center flex-shrink-0">
+                    <User className="h-4 w-4" />
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+          <div ref={bottomRef} />
+        </div>
+      </ScrollArea>
+
+      <form
+        onSubmit={onSubmit}
+        className="flex items-center gap-2 p-4 border-t border-border max-w-3xl w-full mx-auto"
+      >
+        <Input
+          value={input}
+          onChange={onInputChange}
+          placeholder="Ask about weather, F1 or stocks..."
+          disabled={isLoading}
+        />
+        {isLoading ? (
+          <Button type="button" size="icon" variant="outline" onClick={onStop}>
+            <Square className="h-4 w-4" />
+            <span className="sr-only">Stop generating</span>
+          </Button>
+        ) : (
+          <Button type="submit" size="icon" disabled={!input.trim()}>
+            <Send className="h-4 w-4" />
+            <span className="sr-only">Send</span>
+          </Button>
+        )}
+      </form>
+    </div>
+  );
+}
+
+interface VariantPagerProps {
+  message: BranchMessage;
+  onSelect: (messageId: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * "2 / 3" pager for switching between variants of the same message: other
+ * answers to a question, or edited versions of a question. Renders nothing
+ * while the message has a single variant.
+ */
+function VariantPager({ message, onSelect, disabled }: VariantPagerProps) {
+  const { siblingIds } = message;
+  if (siblingIds.length < 2) return null;
+
+  const position = siblingIds.indexOf(message.id);
+
+  return (
+    <div className="flex items-center">
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7"
+        disabled={disabled || position === 0}
+        onClick={() => onSelect(siblingIds[position - 1])}
+      >
+        <ChevronLeft className="h-3 w-3" />
+        <span className="sr-only">Previous variant</span>
+      </Button>
+      <span className="tabular-nums">
+        {position + 1} / {siblingIds.length}
+      </span>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7"
+        disabled={disabled || position === siblingIds.length - 1}
+        onClick={() => onSelect(siblingIds[position + 1])}
+      >
+        <ChevronRight className="h-3 w-3" />
+        <span className="sr-only">Next variant</span>
+      </Button>
+    </div>
+  );
+}
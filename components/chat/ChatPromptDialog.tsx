@@ -0,0 +1,88 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { SlidersHorizontal } from "lucide-react";
+import Link from "next/link";
+import { MAX_INSTRUCTIONS_LENGTH } from "@/lib/ai/prompt";
+
+interface ChatPromptDialogProps {
+  value: string | null;
+  onSave: (systemPrompt: string | null) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Edit the system prompt of the current chat. It replaces the default
+ * assistant persona; the user's custom instructions still apply on top.
+ */
+export function ChatPromptDialog({
+  value,
+  onSave,
+  disabled,
+}: ChatPromptDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState(value || "");
+
+  const handleOpenChange = (next: boolean) => {
+    // Start from the saved prompt every time the dialog opens
+    if (next) setDraft(value || "");
+    setOpen(next);
+  };
+
+  const handleSave = () => {
+    onSave(draft.trim() || null);
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button
+          variant={value ? "secondary" : "ghost"}
+          size="icon"
+          disabled={disabled}
+        >
+          <SlidersHorizontal className="h-4 w-4" />
+          <span className="sr-only">Chat instructions</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Chat instructions</DialogTitle>
+          <DialogDescription>
+            A system prompt for this chat only, e.g. &quot;You are a concise
+            trading analyst.&quot; Your{" "}
+            <Link href="/settings" className="underline">
+              custom instructions
+            </Link>{" "}
+            still apply.
+          </DialogDescription>
+        </DialogHeader>
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Leave empty to use the default assistant"
+          maxLength={MAX_INSTRUCTIONS_LENGTH}
+          rows={6}
+        />
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
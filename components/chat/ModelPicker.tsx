@@ -0,0 +1,88 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { ChatSettings } from "@/hooks/useChatManager";
+
+interface ProviderInfo {
+  id: string;
+  label: string;
+  defaultModel: string;
+  models: string[];
+  configured: boolean;
+}
+
+interface ModelPickerProps {
+  value: ChatSettings;
+  onChange: (settings: Pick<ChatSettings, "provider" | "model">) => void;
+  disabled?: boolean;
+}
+
+const DEFAULT_VALUE = "default";
+
+/**
+ * Provider and model selector for the current chat. Only providers with
+ * credentials configured on the server are offered.
+ */
+export function ModelPicker({ value, onChange, disabled }: ModelPickerProps) {
+  const [providers, setProviders] = useState<ProviderInfo[]>([]);
+
+  useEffect(() => {
+    fetch("/api/providers")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (data) {
+          setProviders(
+            data.providers.filter(
+              (provider: ProviderInfo) => provider.configured,
+            ),
+          );
+        }
+      })
+      .catch((error) => console.warn("Failed to load providers:", error));
+  }, []);
+
+  if (providers.length === 0) return null;
+
+  const selected = value.provider
+    ? `${value.provider}:${value.model || ""}`
+    : DEFAULT_VALUE;
+
+  const handleChange = (next: string) => {
+    if (next === DEFAULT_VALUE) {
+      onChange({ provider: null, model: null });
+      return;
+    }
+    const [provider, ...model] = next.split(":");
+    onChange({ provider, model: model.join(":") || null });
+  };
+
+  return (
+    <Select value={selected} onValueChange={handleChange} disabled={disabled}>
+      <SelectTrigger size="sm" className="w-48">
+        <SelectValue placeholder="Model" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={DEFAULT_VALUE}>Default model</SelectItem>
+        {providers.map((provider) => (
+          <SelectGroup key={provider.id}>
+            <SelectLabel>{provider.label}</SelectLabel>
+            {provider.models.map((model) => (
+              <SelectItem key={model} value={`${provider.id}:${model}`}>
+                {model}
+              </SelectItem>
+            ))}
+          </SelectGroup>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
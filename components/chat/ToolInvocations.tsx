@@ -0,0 +1,125 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import { WeatherCard } from "@/components/tool-cards/WeatherCard";
+import { ForecastCard } from "@/components/tool-cards/ForecastCard";
+import { AirQualityCard } from "@/components/tool-cards/AirQualityCard";
+import { StockCard } from "@/components/tool-cards/StockCard";
+import { StockComparisonCard } from "@/components/tool-cards/StockComparisonCard";
+import { F1Card } from "@/components/tool-cards/F1Card";
+import { MemoryCard } from "@/components/tool-cards/MemoryCard";
+import { LocationPickerCard } from "@/components/tool-cards/LocationPickerCard";
+import type { ToolInvocation } from "@/lib/ai/tools";
+
+interface ToolInvocationsProps {
+  // Messages saved before invocations carried ids, steps and states only
+  // have toolName, args and result
+  invocations: Partial<ToolInvocation>[];
+  /** Sends a user message; cards that ask a question answer through it */
+  onReply?: (content: string) => void;
+}
+
+/**
+ * Render every tool invocation of an assistant message as its own card, in
+ * the order the model requested them.
+ */
+export function ToolInvocations({
+  invocations,
+  onReply,
+}: ToolInvocationsProps) {
+  if (invocations.length === 0) return null;
+
+  return (
+    <div className="flex flex-col gap-3">
+      {invocations.map((invocation, index) => (
+        <ToolInvocationCard
+          key={invocation.toolCallId || index}
+          invocation={invocation}
+          onReply={onReply}
+        />
+      ))}
+    </div>
+  );
+}
+
+function ToolInvocationCard({
+  invocation,
+  onReply,
+}: {
+  invocation: Partial<ToolInvocation>;
+  onReply?: (content: string) => void;
+}) {
+  const { toolName, result } = invocation;
+
+  if (invocation.state === "call") {
+    return (
+      <Card className="w-full max-w-sm">
+        <CardContent className="flex items-center gap-3 p-4">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          <p className="text-sm text-muted-foreground">Running {toolName}...</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (invocation.state === "error" || result?.error) {
+    return (
+      <Card className="w-full max-w-sm border-destructive/50">
+        <CardContent className="flex items-center gap-3 p-4">
+          <AlertTriangle className="h-5 w-5 text-destructive flex-shrink-0" />
+          <div>
+            <p className="text-sm font-medium">{toolName} failed</p>
+            <p className="text-xs text-muted-foreground">
+              {result?.error || "Unknown error"}
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  // Any weather tool can come back asking which place was meant
+  const card =
+    result?.type === "ambiguous-location" ? (
+      <LocationPickerCard data={result} onSelect={onReply} />
+    ) : (
+      renderCard(toolName, result)
+    );
+  const cache = invocation.metadata?.cache;
+  if (!card || !cache?.hit) return card;
+
+  return (
+    <div className="flex flex-col gap-1">
+      {card}
+      <p className="text-xs text-muted-foreground">
+        Cached · {formatAge(cache.ageSeconds)}
+      </p>
+    </div>
+  );
+}
+
+function renderCard(toolName: string | undefined, result: any) {
+  switch (toolName) {
+    case "getWeather":
+      return <WeatherCard data={result} />;
+    case "getWeatherForecast":
+      return <ForecastCard data={result} />;
+    case "getAirQualityAndAlerts":
+      return <AirQualityCard data={result} />;
+    case "getStockPrice":
+      return <StockCard data={result} />;
+    case "compareStocks":
+      return <StockComparisonCard data={result} />;
+    case "getF1Matches":
+      return <F1Card data={result} />;
+    case "remember":
+      return <MemoryCard data={result} />;
+    default:
+      return null;
+  }
+}
+
+function formatAge(seconds: number) {
+  if (seconds < 60) return "just now";
+  if (seconds < 3600) return `${Math.floor(seconds / 60)} min old`;
+  return `${Math.floor(seconds / 3600)} h old`;
+}
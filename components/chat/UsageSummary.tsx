@@ -0,0 +1,99 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Coins } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+
+interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  unpricedCalls: number;
+  estimated: boolean;
+}
+
+interface UsageSummaryProps {
+  chatId?: string | null;
+  /** Totals are fetched again whenever an answer finishes */
+  isLoading: boolean;
+}
+
+function formatTokens(tokens: number): string {
+  if (tokens < 1000) return String(tokens);
+  if (tokens < 1_000_000) return `${(tokens / 1000).toFixed(1)}k`;
+  return `${(tokens / 1_000_000).toFixed(2)}M`;
+}
+
+function formatCost(costUsd: number): string {
+  if (costUsd === 0) return "$0";
+  if (costUsd < 0.01) return `$${costUsd.toFixed(4)}`;
+  return `$${costUsd.toFixed(2)}`;
+}
+
+function describe(totals: UsageTotals): string {
+  const tokens = formatTokens(totals.promptTokens + totals.completionTokens);
+  // A total that leaves out unpriced calls is a lower bound
+  const cost = `${formatCost(totals.costUsd)}${totals.unpricedCalls > 0 ? "+" : ""}`;
+  return `${tokens} tokens · ${cost}`;
+}
+
+/**
+ * Token and cost totals for the current chat, with the user's totals across
+ * all chats in the tooltip.
+ */
+export function UsageSummary({ chatId, isLoading }: UsageSummaryProps) {
+  const [chatTotals, setChatTotals] = useState<UsageTotals | null>(null);
+  const [userTotals, setUserTotals] = useState<UsageTotals | null>(null);
+
+  useEffect(() => {
+    if (!chatId) {
+      setChatTotals(null);
+      return;
+    }
+    if (isLoading) return;
+
+    const load = async (url: string): Promise<UsageTotals | null> => {
+      const response = await fetch(url);
+      if (!response.ok) return null;
+      const data = await response.json();
+      return data.totals;
+    };
+
+    Promise.all([load(`/api/chats/${chatId}/usage`), load("/api/user/usage")])
+      .then(([chat, user]) => {
+        setChatTotals(chat);
+        setUserTotals(user);
+      })
+      .catch((error) => console.warn("Failed to load usage:", error));
+  }, [chatId, isLoading]);
+
+  if (!chatTotals || chatTotals.calls === 0) return null;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge variant="outline" className="text-xs gap-1 cursor-default">
+          <Coins className="h-3 w-3" />
+          {describe(chatTotals)}
+        </Badge>
+      </TooltipTrigger>
+      <TooltipContent className="text-left">
+        <p>
+          This chat: {formatTokens(chatTotals.promptTokens)} prompt +{" "}
+          {formatTokens(chatTotals.completionTokens)} completion tokens over{" "}
+          {chatTotals.calls} model calls
+        </p>
+        {userTotals && <p>All chats: {describe(userTotals)}</p>}
+        {chatTotals.estimated && (
+          <p>Some counts are estimated; the provider did not report them.</p>
+        )}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,113 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { AlertTriangle, CheckCircle2, Wind } from "lucide-react"
+import type { AirQualityReport, AlertSeverity, WeatherAlert } from "@/lib/api/types"
+import { formatLocation } from "./LocationPickerCard"
+
+interface AirQualityCardProps {
+  data: AirQualityReport
+}
+
+// Indexed by AQI - 1
+const AQI_COLORS = ["bg-green-500", "bg-lime-500", "bg-yellow-500", "bg-orange-500", "bg-red-600"]
+
+const SEVERITY_STYLES: Record<AlertSeverity, string> = {
+  extreme: "border-red-700 bg-red-50 dark:bg-red-950/40",
+  severe: "border-red-500 bg-red-50 dark:bg-red-950/40",
+  moderate: "border-orange-400 bg-orange-50 dark:bg-orange-950/40",
+  minor: "border-yellow-400 bg-yellow-50 dark:bg-yellow-950/40",
+}
+
+const POLLUTANTS: { key: keyof AirQualityReport["pollutants"]; label: string }[] = [
+  { key: "pm2_5", label: "PM2.5" },
+  { key: "pm10", label: "PM10" },
+  { key: "o3", label: "O₃" },
+  { key: "no2", label: "NO₂" },
+  { key: "so2", label: "SO₂" },
+  { key: "co", label: "CO" },
+]
+
+const formatTime = (time: string) =>
+  new Date(time).toLocaleString(undefined, { weekday: "short", hour: "2-digit", minute: "2-digit" })
+
+export function AirQualityCard({ data }: AirQualityCardProps) {
+  if (!data || !data.aqi) {
+    return (
+      <Card className="w-full max-w-sm border-destructive/50">
+        <CardContent className="flex items-center justify-center p-6">
+          <div className="text-center">
+            <AlertTriangle className="h-8 w-8 text-destructive mx-auto mb-2" />
+            <p className="text-sm text-muted-foreground">Air quality data unavailable</p>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const { aqi, level, pollutants, alerts, observedAt } = data
+  // Alerts in force when the reading was taken come first; the rest are upcoming
+  const isActive = (alert: WeatherAlert) => alert.start <= observedAt && observedAt < alert.end
+  const sortedAlerts = [...(alerts ?? [])].sort((a, b) => Number(isActive(b)) - Number(isActive(a)))
+
+  return (
+    <Card className={`w-full max-w-sm ${sortedAlerts.some(isActive) ? "border-red-500" : ""}`}>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Wind className="h-5 w-5 text-sky-500" />
+          {data.location ? formatLocation(data.location) : [data.city, data.country].filter(Boolean).join(", ")}
+          {data.source === "fixtures" && (
+            <Badge variant="outline" className="ml-auto text-xs font-normal">
+              Sample data
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {sortedAlerts.map((alert) => (
+          <div
+            key={`${alert.event}-${alert.start}`}
+            className={`rounded-md border-l-4 p-3 text-sm ${SEVERITY_STYLES[alert.severity]}`}
+          >
+            <div className="flex items-center gap-2">
+              <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+              <span className="font-medium">{alert.event}</span>
+              <Badge variant={isActive(alert) ? "destructive" : "outline"} className="ml-auto text-xs capitalize">
+                {isActive(alert) ? "Active" : "Upcoming"}
+              </Badge>
+            </div>
+            <p className="mt-1 text-xs text-muted-foreground">
+              <span className="capitalize">{alert.severity}</span> · {formatTime(alert.start)} – {formatTime(alert.end)}
+              {alert.sender && ` · ${alert.sender}`}
+            </p>
+          </div>
+        ))}
+        {alerts?.length === 0 && (
+          <p className="flex items-center gap-2 text-sm text-muted-foreground">
+            <CheckCircle2 className="h-4 w-4 text-green-600" />
+            No weather alerts
+          </p>
+        )}
+        {alerts === null && <p className="text-xs text-muted-foreground">Weather alerts aren't available from this source</p>}
+
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-muted-foreground">Air quality</span>
+          <div className="flex items-center gap-2">
+            <span className={`h-3 w-3 rounded-full ${AQI_COLORS[aqi - 1] ?? "bg-muted"}`} />
+            <span className="font-semibold">{level}</span>
+            <span className="text-xs text-muted-foreground">AQI {aqi}/5</span>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2 text-sm">
+          {POLLUTANTS.map(({ key, label }) => (
+            <div key={key} className="rounded-md bg-muted/50 p-2 text-center">
+              <p className="text-xs text-muted-foreground">{label}</p>
+              <p className="font-medium">{Math.round(pollutants[key])}</p>
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">Pollutant concentrations in μg/m³</p>
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,14 +1,42 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { Trophy, Calendar, MapPin } from "lucide-react"
+import { Trophy, Calendar, MapPin, Flag } from "lucide-react"
+import type { F1Data } from "@/lib/api/types"
 
 interface F1CardProps {
-  data: any
-  type: "latest-race" | "standings" | "schedule"
+  data: F1Data
 }
 
-export function F1Card({ data, type }: F1CardProps) {
-  if (type === "latest-race") {
+export function F1Card({ data }: F1CardProps) {
+  if (data.type === "next-race") {
+    return (
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Flag className="h-5 w-5 text-red-500" />
+            Next race: {data.raceName}
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            {data.season} season • Round {data.round}
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <p className="font-medium">{data.circuit}</p>
+          <p className="text-sm text-muted-foreground flex items-center gap-1">
+            <MapPin className="h-3 w-3" />
+            {data.location}
+          </p>
+          <p className="text-sm text-muted-foreground flex items-center gap-1">
+            <Calendar className="h-3 w-3" />
+            {data.date}
+            {data.time && ` • ${data.time}`}
+          </p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (data.type === "latest-race") {
     return (
       <Card className="w-full max-w-2xl">
         <CardHeader>
@@ -22,7 +50,7 @@ export function F1Card({ data, type }: F1CardProps) {
         </CardHeader>
         <CardContent>
           <div className="space-y-2">
-            {data.results?.slice(0, 5).map((result: any, index: number) => (
+            {data.results?.slice(0, 5).map((result, index) => (
               <div key={index} className="flex items-center justify-between p-2 rounded-lg bg-muted/50">
                 <div className="flex items-center gap-3">
                   <Badge
@@ -48,7 +76,7 @@ export function F1Card({ data, type }: F1CardProps) {
     )
   }
 
-  if (type === "standings") {
+  if (data.type === "standings") {
     return (
       <Card className="w-full max-w-2xl">
         <CardHeader>
@@ -59,7 +87,7 @@ export function F1Card({ data, type }: F1CardProps) {
         </CardHeader>
         <CardContent>
           <div className="space-y-2">
-            {data.drivers?.slice(0, 10).map((driver: any, index: number) => (
+            {data.drivers?.slice(0, 10).map((driver, index) => (
               <div key={index} className="flex items-center justify-between p-2 rounded-lg bg-muted/50">
                 <div className="flex items-center gap-3">
                   <Badge
@@ -85,7 +113,7 @@ export function F1Card({ data, type }: F1CardProps) {
     )
   }
 
-  if (type === "schedule") {
+  if (data.type === "schedule") {
     return (
       <Card className="w-full max-w-2xl">
         <CardHeader>
@@ -96,7 +124,7 @@ export function F1Card({ data, type }: F1CardProps) {
         </CardHeader>
         <CardContent>
           <div className="space-y-3">
-            {data.races?.slice(0, 8).map((race: any, index: number) => (
+            {data.races?.slice(0, 8).map((race, index) => (
               <div key={index} className="flex items-center justify-between p-3 rounded-lg bg-muted/50">
                 <div className="flex items-center gap-3">
                   <Badge variant="outline" className="font-mono">
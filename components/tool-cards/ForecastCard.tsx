@@ -0,0 +1,107 @@
+import { Bar, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from "recharts"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import { AlertTriangle, Droplets } from "lucide-react"
+import type { WeatherForecast } from "@/lib/api/types"
+import { getWeatherIcon } from "./WeatherCard"
+import { formatLocation } from "./LocationPickerCard"
+
+interface ForecastCardProps {
+  data: WeatherForecast
+}
+
+const chartConfig = {
+  temperature: { label: "Temperature (°C)", color: "#f97316" },
+  precipitationProbability: { label: "Chance of rain (%)", color: "#3b82f6" },
+} satisfies ChartConfig
+
+// Times and dates are shown in the location's local time, whatever the
+// viewer's time zone
+const toLocal = (time: string, utcOffset: number) => new Date(Date.parse(time) + utcOffset * 1000)
+
+const formatHour = (time: string, utcOffset: number) =>
+  `${toLocal(time, utcOffset).getUTCHours().toString().padStart(2, "0")}:00`
+
+const formatWeekday = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { weekday: "short", timeZone: "UTC" })
+
+export function ForecastCard({ data }: ForecastCardProps) {
+  if (!data || !data.city || !data.days?.length) {
+    return (
+      <Card className="w-full max-w-md border-destructive/50">
+        <CardContent className="flex items-center justify-center p-6">
+          <div className="text-center">
+            <AlertTriangle className="h-8 w-8 text-destructive mx-auto mb-2" />
+            <p className="text-sm text-muted-foreground">Forecast unavailable</p>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const { city, country, days, hours, utcOffset } = data
+  const chartData = hours.map((hour) => ({
+    ...hour,
+    label: formatHour(hour.time, utcOffset),
+  }))
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          {data.location ? formatLocation(data.location) : [city, country].filter(Boolean).join(", ")}
+          <span className="text-sm font-normal text-muted-foreground">forecast</span>
+          {data.source === "fixtures" && (
+            <Badge variant="outline" className="ml-auto text-xs font-normal">
+              Sample data
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${days.length}, minmax(0, 1fr))` }}>
+          {days.map((day) => (
+            <div key={day.date} className="flex flex-col items-center gap-1 rounded-md border p-2 text-center" title={day.description}>
+              <span className="text-xs font-medium">{formatWeekday(day.date)}</span>
+              <span className="text-xl">{getWeatherIcon(day.condition)}</span>
+              <span className="text-sm font-semibold">{day.maxTemperature}°</span>
+              <span className="text-xs text-muted-foreground">{day.minTemperature}°</span>
+              <span className="flex items-center gap-0.5 text-xs text-blue-600">
+                <Droplets className="h-3 w-3" />
+                {day.precipitationProbability}%
+              </span>
+            </div>
+          ))}
+        </div>
+
+        {chartData.length > 1 && (
+          <ChartContainer config={chartConfig} className="aspect-auto h-40 w-full">
+            <ComposedChart data={chartData} margin={{ left: -20, right: -20 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} interval="preserveStartEnd" />
+              <YAxis yAxisId="temperature" tickLine={false} axisLine={false} width={40} unit="°" />
+              <YAxis yAxisId="precipitation" orientation="right" domain={[0, 100]} hide />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar
+                yAxisId="precipitation"
+                dataKey="precipitationProbability"
+                fill="var(--color-precipitationProbability)"
+                fillOpacity={0.4}
+                radius={2}
+              />
+              <Line
+                yAxisId="temperature"
+                dataKey="temperature"
+                type="monotone"
+                stroke="var(--color-temperature)"
+                strokeWidth={2}
+                dot={false}
+              />
+            </ComposedChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
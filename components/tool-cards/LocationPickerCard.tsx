@@ -0,0 +1,42 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { MapPin } from "lucide-react"
+import type { AmbiguousLocation, GeoLocation } from "@/lib/api/types"
+
+interface LocationPickerCardProps {
+  data: AmbiguousLocation
+  /** Sends the choice as the user's reply; without it the list is read-only */
+  onSelect?: (reply: string) => void
+}
+
+export const formatLocation = (location: GeoLocation) =>
+  [location.name, location.state, location.country].filter(Boolean).join(", ")
+
+export function LocationPickerCard({ data, onSelect }: LocationPickerCardProps) {
+  if (!data?.candidates?.length) return null
+
+  return (
+    <Card className="w-full max-w-sm">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <MapPin className="h-4 w-4 text-primary" />
+          Which {data.query} did you mean?
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-2">
+        {data.candidates.map((candidate) => (
+          <Button
+            key={`${candidate.latitude},${candidate.longitude}`}
+            variant="outline"
+            size="sm"
+            className="justify-start"
+            disabled={!onSelect}
+            onClick={() => onSelect?.(`I mean ${formatLocation(candidate)}`)}
+          >
+            {formatLocation(candidate)}
+          </Button>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
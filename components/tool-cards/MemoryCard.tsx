@@ -0,0 +1,31 @@
+import Link from "next/link"
+import { Card, CardContent } from "@/components/ui/card"
+import { Brain } from "lucide-react"
+
+interface MemoryCardProps {
+  data: {
+    fact?: string
+    alreadyKnown?: boolean
+  }
+}
+
+export function MemoryCard({ data }: MemoryCardProps) {
+  if (!data?.fact) return null
+
+  return (
+    <Card className="w-full max-w-sm">
+      <CardContent className="flex items-center gap-3 p-4">
+        <Brain className="h-5 w-5 text-primary flex-shrink-0" />
+        <div className="min-w-0">
+          <p className="text-sm font-medium">
+            {data.alreadyKnown ? "Already remembered" : "Saved to memory"}
+          </p>
+          <p className="text-xs text-muted-foreground truncate">{data.fact}</p>
+        </div>
+        <Link href="/settings" className="text-xs underline ml-auto flex-shrink-0">
+          Manage
+        </Link>
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,36 +1,17 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { TrendingUp, TrendingDown, DollarSign, BarChart3, AlertTriangle } from "lucide-react"
+import type { StockQuote } from "@/lib/api/types"
+import { StockChart } from "./StockChart"
 
 interface StockCardProps {
-  data: {
-    symbol?: string
-    price?: string
-    change?: string
-    changePercent?: string
-    volume?: string
-    high?: string
-    low?: string
-    open?: string
-    previousClose?: string
-    interval?: string
-  }
+  data: StockQuote
 }
 
-export function StockCard({ data }: StockCardProps) {
-  const {
-    symbol = "N/A",
-    price = "0.00",
-    change = "0.00",
-    changePercent = "0.00%",
-    volume = "N/A",
-    high = "N/A",
-    low = "N/A",
-    open = "N/A",
-    previousClose = "N/A",
-    interval = "1D",
-  } = data || {}
+const formatPrice = (value: number) => `$${value.toFixed(2)}`
+const formatSigned = (value: number, suffix = "") => `${value > 0 ? "+" : ""}${value.toFixed(2)}${suffix}`
 
+export function StockCard({ data }: StockCardProps) {
   if (!data || !data.symbol) {
     return (
       <Card className="w-full max-w-md border-destructive/50">
@@ -44,7 +25,8 @@ export function StockCard({ data }: StockCardProps) {
     )
   }
 
-  const isPositive = change.startsWith("+") || (!change.startsWith("-") && Number.parseFloat(change) > 0)
+  const { symbol, price, change, changePercent, volume, high, low, open, previousClose, latestTradingDay } = data
+  const isPositive = change >= 0
   const changeColor = isPositive ? "text-green-600" : "text-red-600"
   const TrendIcon = isPositive ? TrendingUp : TrendingDown
 
@@ -57,18 +39,18 @@ export function StockCard({ data }: StockCardProps) {
             <span className="font-bold text-lg">{symbol}</span>
           </div>
           <Badge variant="outline" className="text-xs">
-            {interval}
+            {data.source === "fixtures" ? "Sample data" : latestTradingDay}
           </Badge>
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
         <div className="flex items-center justify-between">
           <div>
-            <p className="text-3xl font-bold">{price}</p>
+            <p className="text-3xl font-bold">{formatPrice(price)}</p>
             <div className={`flex items-center gap-1 ${changeColor}`}>
               <TrendIcon className="h-4 w-4" />
-              <span className="font-medium">{change}</span>
-              <span className="font-medium">({changePercent})</span>
+              <span className="font-medium">{formatSigned(change)}</span>
+              <span className="font-medium">({formatSigned(changePercent, "%")})</span>
             </div>
           </div>
         </div>
@@ -77,25 +59,25 @@ export function StockCard({ data }: StockCardProps) {
           <div className="space-y-2">
             <div className="flex justify-between">
               <span className="text-muted-foreground">Open</span>
-              <span className="font-medium">{open}</span>
+              <span className="font-medium">{formatPrice(open)}</span>
             </div>
             <div className="flex justify-between">
               <span className="text-muted-foreground">High</span>
-              <span className="font-medium">{high}</span>
+              <span className="font-medium">{formatPrice(high)}</span>
             </div>
             <div className="flex justify-between">
               <span className="text-muted-foreground">Low</span>
-              <span className="font-medium">{low}</span>
+              <span className="font-medium">{formatPrice(low)}</span>
             </div>
           </div>
           <div className="space-y-2">
             <div className="flex justify-between">
               <span className="text-muted-foreground">Prev Close</span>
-              <span className="font-medium">{previousClose}</span>
+              <span className="font-medium">{formatPrice(previousClose)}</span>
             </div>
             <div className="flex justify-between">
               <span className="text-muted-foreground">Volume</span>
-              <span className="font-medium">{volume}</span>
+              <span className="font-medium">{volume.toLocaleString()}</span>
             </div>
             <div className="flex items-center gap-1 text-muted-foreground">
               <BarChart3 className="h-3 w-3" />
@@ -103,6 +85,10 @@ export function StockCard({ data }: StockCardProps) {
             </div>
           </div>
         </div>
+
+        <div className="pt-2 border-t">
+          <StockChart symbol={symbol} initial={data.history} />
+        </div>
       </CardContent>
     </Card>
   )
@@ -0,0 +1,197 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { Bar, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from "recharts"
+import { ChartContainer, ChartTooltip, type ChartConfig } from "@/components/ui/chart"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { CandlestickChart, LineChart, Loader2 } from "lucide-react"
+import { STOCK_RANGES, type StockBar, type StockRange, type StockSeries } from "@/lib/api/types"
+
+interface StockChartProps {
+  symbol: string
+  /** History that came with the tool result, shown without a request */
+  initial?: StockSeries
+}
+
+type ChartMode = "line" | "candle"
+
+interface ChartPoint extends StockBar {
+  label: string
+}
+
+const UP_COLOR = "#16a34a"
+const DOWN_COLOR = "#dc2626"
+
+const chartConfig = {
+  close: { label: "Close", color: UP_COLOR },
+} satisfies ChartConfig
+
+// Bar times are already in the exchange's zone, so they are formatted as UTC
+// to keep the viewer's zone out of it
+const formatDate = (time: string, options: Intl.DateTimeFormatOptions) =>
+  new Date(`${time.slice(0, 10)}T${time.slice(11, 16) || "00:00"}:00Z`).toLocaleString(undefined, {
+    ...options,
+    timeZone: "UTC",
+  })
+
+export function formatBarLabel(time: string, interval: StockSeries["interval"]) {
+  if (interval === "5min") return time.slice(11, 16)
+  if (interval === "60min") return formatDate(time, { weekday: "short", hour: "2-digit", minute: "2-digit" })
+  return formatDate(time, { month: "short", day: "numeric" })
+}
+
+/**
+ * Price history with a range switcher and a line or candlestick view. Other
+ * ranges are fetched when picked and kept for the life of the card.
+ */
+export function StockChart({ symbol, initial }: StockChartProps) {
+  const loaded = useRef(new Map<StockRange, StockSeries>(initial ? [[initial.range, initial]] : []))
+  const [series, setSeries] = useState<StockSeries | null>(initial ?? null)
+  const [loading, setLoading] = useState<StockRange | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [mode, setMode] = useState<ChartMode>("line")
+
+  const selectRange = async (range: StockRange) => {
+    const known = loaded.current.get(range)
+    if (known) {
+      setSeries(known)
+      setError(null)
+      return
+    }
+
+    setLoading(range)
+    setError(null)
+    try {
+      const response = await fetch(`/api/stocks/history?symbol=${encodeURIComponent(symbol)}&range=${range}`)
+      if (!response.ok) throw new Error(await response.text())
+
+      const next: StockSeries = await response.json()
+      loaded.current.set(range, next)
+      setSeries(next)
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : "Price history unavailable")
+    } finally {
+      setLoading(null)
+    }
+  }
+
+  const points: ChartPoint[] = (series?.bars ?? []).map((bar) => ({
+    ...bar,
+    label: formatBarLabel(bar.time, series!.interval),
+  }))
+  const first = points[0]
+  const last = points[points.length - 1]
+  const change = first && last ? ((last.close - first.open) / first.open) * 100 : 0
+  const lineColor = change >= 0 ? UP_COLOR : DOWN_COLOR
+  const low = Math.min(...points.map((point) => point.low))
+  const high = Math.max(...points.map((point) => point.high))
+  const padding = (high - low) * 0.05
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={series?.range ?? ""}
+          onValueChange={(value) => value && selectRange(value as StockRange)}
+        >
+          {STOCK_RANGES.map((range) => (
+            <ToggleGroupItem key={range} value={range} className="px-2 text-xs" disabled={!!loading}>
+              {loading === range ? <Loader2 className="h-3 w-3 animate-spin" /> : range}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+        <ToggleGroup type="single" size="sm" value={mode} onValueChange={(value) => value && setMode(value as ChartMode)}>
+          <ToggleGroupItem value="line" aria-label="Line chart">
+            <LineChart className="h-4 w-4" />
+          </ToggleGroupItem>
+          <ToggleGroupItem value="candle" aria-label="Candlestick chart">
+            <CandlestickChart className="h-4 w-4" />
+          </ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+      {!series && !error && <p className="text-xs text-muted-foreground">Pick a range to chart the price history</p>}
+
+      {points.length > 1 && (
+        <>
+          <p className="text-xs text-muted-foreground">
+            <span style={{ color: lineColor }} className="font-medium">
+              {change > 0 ? "+" : ""}
+              {change.toFixed(2)}%
+            </span>{" "}
+            over {series!.range}
+          </p>
+          <ChartContainer config={chartConfig} className="aspect-auto h-44 w-full">
+            <ComposedChart data={points} margin={{ left: 0, right: 0 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+              <YAxis
+                domain={[low - padding, high + padding]}
+                tickLine={false}
+                axisLine={false}
+                width={48}
+                tickFormatter={(value: number) => value.toFixed(value >= 100 ? 0 : 2)}
+              />
+              <ChartTooltip content={<BarTooltip />} />
+              {mode === "line" ? (
+                <Line dataKey="close" type="monotone" stroke={lineColor} strokeWidth={2} dot={false} />
+              ) : (
+                <Bar dataKey={(point: ChartPoint) => [point.low, point.high]} shape={<Candle />} isAnimationActive={false} />
+              )}
+            </ComposedChart>
+          </ChartContainer>
+        </>
+      )}
+    </div>
+  )
+}
+
+// The bar spans low to high; the body is placed inside it by price
+function Candle(props: { x?: number; y?: number; width?: number; height?: number; payload?: ChartPoint }) {
+  const { x = 0, y = 0, width = 0, height = 0, payload } = props
+  if (!payload) return null
+
+  const { open, close, high, low } = payload
+  const color = close >= open ? UP_COLOR : DOWN_COLOR
+  const scale = high > low ? height / (high - low) : 0
+  const center = x + width / 2
+
+  return (
+    <g>
+      <line x1={center} x2={center} y1={y} y2={y + height} stroke={color} />
+      <rect
+        x={x + width * 0.15}
+        y={y + (high - Math.max(open, close)) * scale}
+        width={width * 0.7}
+        height={Math.max(1, Math.abs(close - open) * scale)}
+        fill={color}
+      />
+    </g>
+  )
+}
+
+function BarTooltip({ active, payload }: { active?: boolean; payload?: { payload: ChartPoint }[] }) {
+  const point = payload?.[0]?.payload
+  if (!active || !point) return null
+
+  return (
+    <div className="rounded-lg border bg-background px-2.5 py-1.5 text-xs shadow-xl">
+      <p className="font-medium">{point.time}</p>
+      <div className="grid grid-cols-2 gap-x-3 tabular-nums">
+        <span className="text-muted-foreground">Open</span>
+        <span>{point.open.toFixed(2)}</span>
+        <span className="text-muted-foreground">High</span>
+        <span>{point.high.toFixed(2)}</span>
+        <span className="text-muted-foreground">Low</span>
+        <span>{point.low.toFixed(2)}</span>
+        <span className="text-muted-foreground">Close</span>
+        <span>{point.close.toFixed(2)}</span>
+        <span className="text-muted-foreground">Volume</span>
+        <span>{point.volume.toLocaleString()}</span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,147 @@
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { ChartContainer, ChartTooltip, type ChartConfig } from "@/components/ui/chart"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { AlertTriangle, GitCompareArrows } from "lucide-react"
+import type { StockComparison } from "@/lib/api/types"
+import { formatBarLabel } from "./StockChart"
+
+interface StockComparisonCardProps {
+  data: StockComparison
+}
+
+// One color per compared symbol, in order
+const SERIES_COLORS = ["#2563eb", "#16a34a", "#ea580c", "#9333ea", "#db2777"]
+
+const formatPrice = (value: number) => `$${value.toFixed(2)}`
+const formatPercent = (value: number) => `${value > 0 ? "+" : ""}${value.toFixed(2)}%`
+const formatVolume = (value: number) =>
+  new Intl.NumberFormat(undefined, { notation: "compact", maximumFractionDigits: 1 }).format(value)
+
+export function StockComparisonCard({ data }: StockComparisonCardProps) {
+  if (!data || !data.stocks?.length) {
+    return (
+      <Card className="w-full max-w-lg border-destructive/50">
+        <CardContent className="flex items-center justify-center p-6">
+          <div className="text-center">
+            <AlertTriangle className="h-8 w-8 text-destructive mx-auto mb-2" />
+            <p className="text-sm text-muted-foreground">Comparison unavailable</p>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const { stocks, points, range, interval, failed } = data
+  const colors = stocks.map((_, index) => SERIES_COLORS[index % SERIES_COLORS.length])
+  // Series are keyed by position, as a symbol like BRK.B reads as a nested path
+  const chartConfig: ChartConfig = Object.fromEntries(
+    stocks.map((stock, index) => [seriesKey(index), { label: stock.symbol, color: colors[index] }])
+  )
+  const chartData = points.map((point) => ({
+    ...Object.fromEntries(stocks.map((stock, index) => [seriesKey(index), point.values[stock.symbol]])),
+    label: formatBarLabel(point.time, interval),
+    time: point.time,
+  }))
+
+  return (
+    <Card className="w-full max-w-lg">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <GitCompareArrows className="h-5 w-5 text-primary" />
+          {stocks.map((stock) => stock.symbol).join(" vs ")}
+          <Badge variant="outline" className="ml-auto text-xs font-normal">
+            {data.source === "fixtures" ? `Sample data · ${range}` : range}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {chartData.length > 1 && (
+          <ChartContainer config={chartConfig} className="aspect-auto h-48 w-full">
+            <LineChart data={chartData} margin={{ left: 0, right: 0 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+              <YAxis tickLine={false} axisLine={false} width={48} tickFormatter={(value: number) => `${value}%`} />
+              <ReferenceLine y={0} stroke="currentColor" strokeOpacity={0.3} />
+              <ChartTooltip content={<ComparisonTooltip />} />
+              {stocks.map((stock, index) => (
+                <Line
+                  key={stock.symbol}
+                  dataKey={seriesKey(index)}
+                  name={stock.symbol}
+                  type="monotone"
+                  stroke={colors[index]}
+                  strokeWidth={2}
+                  dot={false}
+                  connectNulls
+                />
+              ))}
+            </LineChart>
+          </ChartContainer>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Symbol</TableHead>
+              <TableHead className="text-right">Price</TableHead>
+              <TableHead className="text-right">Change</TableHead>
+              <TableHead className="text-right">High / Low</TableHead>
+              <TableHead className="text-right">Volume</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {stocks.map((stock, index) => (
+              <TableRow key={stock.symbol}>
+                <TableCell className="font-medium">
+                  <span className="mr-2 inline-block h-2 w-2 rounded-full" style={{ backgroundColor: colors[index] }} />
+                  {stock.symbol}
+                </TableCell>
+                <TableCell className="text-right">{formatPrice(stock.price)}</TableCell>
+                <TableCell className={`text-right ${stock.change >= 0 ? "text-green-600" : "text-red-600"}`}>
+                  {formatPercent(stock.changePercent)}
+                </TableCell>
+                <TableCell className="text-right text-muted-foreground">
+                  {formatPrice(stock.high)} / {formatPrice(stock.low)}
+                </TableCell>
+                <TableCell className="text-right">{formatVolume(stock.volume)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <p className="text-xs text-muted-foreground">
+          Change, high, low and volume cover the whole {range} range.
+          {failed?.length > 0 && ` No data for ${failed.map((item) => item.symbol).join(", ")}.`}
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
+
+function seriesKey(index: number): string {
+  return `series${index}`
+}
+
+function ComparisonTooltip({
+  active,
+  payload,
+}: {
+  active?: boolean
+  payload?: { dataKey?: unknown; name?: unknown; value?: unknown; color?: string; payload: { time: string } }[]
+}) {
+  if (!active || !payload?.length) return null
+
+  return (
+    <div className="rounded-lg border bg-background px-2.5 py-1.5 text-xs shadow-xl">
+      <p className="font-medium">{payload[0].payload.time}</p>
+      {payload.map((item) => (
+        <div key={String(item.dataKey)} className="flex items-center justify-between gap-4 tabular-nums">
+          <span style={{ color: item.color }}>{String(item.name)}</span>
+          <span>{formatPercent(Number(item.value))}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -1,30 +1,33 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
 import { Droplets, Wind, Thermometer, AlertTriangle } from "lucide-react"
+import type { CurrentWeather } from "@/lib/api/types"
+import { formatLocation } from "./LocationPickerCard"
 
 interface WeatherCardProps {
-  data: {
-    city?: string
-    country?: string
-    temperature?: string
-    condition?: string
-    humidity?: string
-    windSpeed?: string
-    description?: string
+  data: CurrentWeather
+}
+
+export function getWeatherIcon(condition: string) {
+  switch (condition.toLowerCase()) {
+    case "clear":
+      return "☀️"
+    case "clouds":
+      return "☁️"
+    case "rain":
+    case "drizzle":
+      return "🌧️"
+    case "snow":
+      return "❄️"
+    case "thunderstorm":
+      return "⛈️"
+    default:
+      return "🌤️"
   }
 }
 
 export function WeatherCard({ data }: WeatherCardProps) {
-  const {
-    city = "Unknown",
-    country = "Unknown",
-    temperature = "N/A",
-    condition = "unknown",
-    humidity = "N/A",
-    windSpeed = "N/A",
-    description = "No description available",
-  } = data || {}
-
-  if (!data || (!data.city && !data.temperature)) {
+  if (!data || !data.city) {
     return (
       <Card className="w-full max-w-sm border-destructive/50">
         <CardContent className="flex items-center justify-center p-6">
@@ -37,29 +40,19 @@ export function WeatherCard({ data }: WeatherCardProps) {
     )
   }
 
-  const getWeatherIcon = (condition: string) => {
-    switch (condition.toLowerCase()) {
-      case "clear":
-        return "☀️"
-      case "clouds":
-        return "☁️"
-      case "rain":
-        return "🌧️"
-      case "snow":
-        return "❄️"
-      case "thunderstorm":
-        return "⛈️"
-      default:
-        return "🌤️"
-    }
-  }
+  const { city, country, temperature, feelsLike, condition, humidity, windSpeed, description } = data
 
   return (
     <Card className="w-full max-w-sm">
       <CardHeader className="pb-3">
         <CardTitle className="flex items-center gap-2 text-lg">
           <span className="text-2xl">{getWeatherIcon(condition)}</span>
-          {city}, {country}
+          {data.location ? formatLocation(data.location) : [city, country].filter(Boolean).join(", ")}
+          {data.source === "fixtures" && (
+            <Badge variant="outline" className="ml-auto text-xs font-normal">
+              Sample data
+            </Badge>
+          )}
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
@@ -68,7 +61,10 @@ export function WeatherCard({ data }: WeatherCardProps) {
             <Thermometer className="h-4 w-4 text-orange-500" />
             <span className="text-sm text-muted-foreground">Temperature</span>
           </div>
-          <span className="text-2xl font-bold">{temperature}</span>
+          <div className="text-right">
+            <span className="text-2xl font-bold">{temperature}°C</span>
+            <p className="text-xs text-muted-foreground">Feels like {feelsLike}°C</p>
+          </div>
         </div>
 
         <div className="grid grid-cols-2 gap-4 text-sm">
@@ -76,14 +72,14 @@ export function WeatherCard({ data }: WeatherCardProps) {
             <Droplets className="h-4 w-4 text-blue-500" />
             <div>
               <p className="text-muted-foreground">Humidity</p>
-              <p className="font-medium">{humidity}</p>
+              <p className="font-medium">{humidity}%</p>
             </div>
           </div>
           <div className="flex items-center gap-2">
             <Wind className="h-4 w-4 text-gray-500" />
             <div>
               <p className="text-muted-foreground">Wind</p>
-              <p className="font-medium">{windSpeed}</p>
+              <p className="font-medium">{windSpeed} km/h</p>
             </div>
           </div>
         </div>
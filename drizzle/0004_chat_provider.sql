@@ -0,0 +1,3 @@
+-- Per-chat LLM provider and model selection
+ALTER TABLE "chats" ADD COLUMN "provider" text;
+ALTER TABLE "chats" ADD COLUMN "model" text;
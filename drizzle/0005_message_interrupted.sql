@@ -0,0 +1,2 @@
+-- Mark assistant messages that were stopped before completion
+ALTER TABLE "messages" ADD COLUMN "interrupted" boolean DEFAULT false NOT NULL;
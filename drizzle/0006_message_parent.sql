@@ -0,0 +1,11 @@
+-- Store messages as a tree so an answer can have several variants
+ALTER TABLE "messages" ADD COLUMN "parent_id" uuid;
+ALTER TABLE "messages" ADD CONSTRAINT "messages_parent_id_messages_id_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."messages"("id") ON DELETE cascade ON UPDATE no action;
+
+-- Existing chats are linear: each message follows the one created before it
+UPDATE "messages" SET "parent_id" = "ordered"."previous_id"
+FROM (
+  SELECT "id", LAG("id") OVER (PARTITION BY "chat_id" ORDER BY "created_at") AS "previous_id"
+  FROM "messages"
+) AS "ordered"
+WHERE "messages"."id" = "ordered"."id";
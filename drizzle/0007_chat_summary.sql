@@ -0,0 +1,3 @@
+-- Rolling summary of turns folded out of the model context
+ALTER TABLE "chats" ADD COLUMN "summary" text;
+ALTER TABLE "chats" ADD COLUMN "summary_message_id" uuid;
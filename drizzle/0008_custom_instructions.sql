@@ -0,0 +1,3 @@
+-- User-level custom instructions and per-chat system prompts
+ALTER TABLE "users" ADD COLUMN "custom_instructions" text;
+ALTER TABLE "chats" ADD COLUMN "system_prompt" text;
@@ -0,0 +1,2 @@
+-- Track where a chat title came from so generated titles never replace manual ones
+ALTER TABLE "chats" ADD COLUMN "title_source" text DEFAULT 'prompt' NOT NULL;
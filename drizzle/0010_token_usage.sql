@@ -0,0 +1,19 @@
+-- Token counts and cost of every model call
+CREATE TABLE "token_usage" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"chat_id" uuid,
+	"message_id" uuid,
+	"provider" text NOT NULL,
+	"model" text NOT NULL,
+	"purpose" text NOT NULL,
+	"prompt_tokens" integer NOT NULL,
+	"completion_tokens" integer NOT NULL,
+	"estimated" boolean DEFAULT false NOT NULL,
+	"cost_usd" numeric(12, 6),
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+ALTER TABLE "token_usage" ADD CONSTRAINT "token_usage_chat_id_chats_id_fk" FOREIGN KEY ("chat_id") REFERENCES "public"."chats"("id") ON DELETE set null ON UPDATE no action;
+ALTER TABLE "token_usage" ADD CONSTRAINT "token_usage_message_id_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE set null ON UPDATE no action;
+CREATE INDEX "token_usage_chat_id_idx" ON "token_usage" USING btree ("chat_id");
+CREATE INDEX "token_usage_user_id_idx" ON "token_usage" USING btree ("user_id");
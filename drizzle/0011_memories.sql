@@ -0,0 +1,12 @@
+-- Long-term facts about each user, shared by all of their chats
+CREATE TABLE "memories" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"content" text NOT NULL,
+	"source" text DEFAULT 'user' NOT NULL,
+	"chat_id" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+ALTER TABLE "memories" ADD CONSTRAINT "memories_chat_id_chats_id_fk" FOREIGN KEY ("chat_id") REFERENCES "public"."chats"("id") ON DELETE set null ON UPDATE no action;
+CREATE INDEX "memories_user_id_idx" ON "memories" USING btree ("user_id");
@@ -0,0 +1,8 @@
+-- Shared cache of tool results for TOOL_CACHE=postgres
+CREATE TABLE "tool_cache" (
+	"key" text PRIMARY KEY NOT NULL,
+	"value" jsonb NOT NULL,
+	"stored_at" timestamp NOT NULL,
+	"expires_at" timestamp NOT NULL
+);
+CREATE INDEX "tool_cache_expires_at_idx" ON "tool_cache" USING btree ("expires_at");
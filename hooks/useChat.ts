@@ -1,24 +1,61 @@
 "use client";
 
-import { useState, useCallback } from "react";
-
-interface Message {
+import { useState, useCallback, useMemo, useRef } from "react";
+import { toast } from "sonner";
+import { getBranch, getLatestLeaf, getSiblings } from "@/lib/chat-tree";
+import { readEventStream, type ResponseMetadata } from "@/lib/ai/stream";
+import type { ToolInvocation } from "@/lib/ai/tools";
+import type { TokenUsage } from "@/lib/ai/types";
+
+export interface Message {
   id: string;
+  // Previous message in the conversation tree; null for the first message
+  parentId?: string | null;
   role: "user" | "assistant";
   content: string;
-  toolInvocations?: any[];
+  toolInvocations?: ToolInvocation[];
+  usage?: TokenUsage;
+  metadata?: ResponseMetadata;
+  // The user stopped generation before the answer was complete
+  interrupted?: boolean;
   isThinking?: boolean;
 }
 
+// A message on the visible branch, with the ids of its alternate variants
+export interface BranchMessage extends Message {
+  siblingIds: string[];
+}
+
 interface UseChatProps {
   api: string;
+  // Extra fields sent with every request, e.g. the chat's provider and model
+  body?: object;
+  // The saved chat to answer in; creates one for the first question
+  resolveChatId: (firstMessage: string) => Promise<string | null>;
   onFinish?: (message: Message) => Promise<void>;
 }
 
-export function useChat({ api, onFinish }: UseChatProps) {
+export function useChat({
+  api,
+  body,
+  resolveChatId,
+  onFinish,
+}: UseChatProps) {
+  // Every message of the chat, including variants not on the visible branch
   const [messages, setMessages] = useState<Message[]>([]);
+  const [leafId, setLeafId] = useState<string | null>(null);
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const branch = useMemo<BranchMessage[]>(
+    () =>
+      getBranch(messages, leafId).map((message) => ({
+        ...message,
+        siblingIds: getSiblings(messages, message).map((sibling) => sibling.id),
+      })),
+    [messages, leafId],
+  );
 
   const handleInputChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -27,9 +64,8 @@ export function useChat({ api, onFinish }: UseChatProps) {
     [],
   );
 
-  // Helper function to generate unique IDs
-  const generateId = () =>
-    `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  // Ids double as database keys so parents can be referenced before saving
+  const generateId = () => crypto.randomUUID();
 
   // Helper function to update specific message without duplicates
   const updateMessage = useCallback(
@@ -46,29 +82,54 @@ export function useChat({ api, onFinish }: UseChatProps) {
     [],
   );
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!input.trim() || isLoading) return;
-
-    const userMessage: Message = {
-      id: generateId(),
-      role: "user",
-      content: input.trim(),
-    };
+  /**
+   * Stream the answer to `parentId`. With a `userMessage` the question is
+   * new and is shown right away; without one the existing question is
+   * answered again. The server saves both, so on failure the optimistic
+   * messages are rolled back and false is returned.
+   */
+  const streamAnswer = async (
+    parentId: string,
+    userMessage?: Message,
+  ): Promise<boolean> => {
+    const previousLeafId = leafId;
+    const assistantId = generateId();
+
+    if (userMessage) {
+      setMessages((prev) => [...prev, userMessage]);
+      setLeafId(userMessage.id);
+    }
 
-    // Add user message immediately
-    setMessages((prev) => [...prev, userMessage]);
     setIsLoading(true);
 
-    // Store input and clear immediately for better UX
-    const userInput = input.trim();
-    setInput("");
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    // Declared outside the try so a stopped answer keeps its partial state
+    let assistantContent = "";
+    let toolInvocations: ToolInvocation[] = [];
+    let started = false;
 
     try {
+      const chatId = await resolveChatId(userMessage?.content ?? "");
+      if (!chatId) {
+        throw new Error("Could not create a chat");
+      }
+
       const response = await fetch(api, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ messages: [...messages, userMessage] }),
+        body: JSON.stringify({
+          ...body,
+          chatId,
+          parentId: userMessage ? userMessage.parentId : parentId,
+          message: userMessage && {
+            id: userMessage.id,
+            content: userMessage.content,
+          },
+          assistantMessageId: assistantId,
+        }),
+        signal: abortController.signal,
       });
 
       if (!response.ok) {
@@ -79,14 +140,9 @@ export function useChat({ api, onFinish }: UseChatProps) {
         throw new Error("No response body");
       }
 
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-      let assistantContent = "";
-
-      // Create assistant message with unique ID
-      const assistantId = generateId();
       const assistantMessage: Message = {
         id: assistantId,
+        parentId,
         role: "assistant",
         content: "",
         toolInvocations: [],
@@ -95,103 +151,175 @@ export function useChat({ api, onFinish }: UseChatProps) {
 
       // Add assistant message immediately
       setMessages((prev) => [...prev, assistantMessage]);
+      setLeafId(assistantId);
+      started = true;
 
-      // Stream the response
-      let isComplete = false;
-      while (!isComplete) {
-        const { done, value } = await reader.read();
-        if (done) {
-          isComplete = true;
-          break;
-        }
+      let usage: TokenUsage | undefined;
+      let metadata: ResponseMetadata | undefined;
 
-        const chunk = decoder.decode(value, { stream: true });
-        assistantContent += chunk;
-
-        // Check for tool results in the stream
-        if (assistantContent.includes("TOOL_RESULT:")) {
-          const toolResultIndex = assistantContent.indexOf("TOOL_RESULT:");
-          const textPart = assistantContent
-            .substring(0, toolResultIndex)
-            .trim();
-          const toolPart = assistantContent.substring(toolResultIndex + 12);
-
-          try {
-            const toolResult = JSON.parse(toolPart);
-
-            // Update message with final content and tool result
-            updateMessage(assistantId, {
-              content: textPart,
-              toolInvocations: [toolResult],
-              isThinking: false,
-            });
-
-            // Call onFinish with the complete message
-            if (onFinish) {
-              const finalMessage: Message = {
-                id: assistantId,
-                role: "assistant",
-                content: textPart,
-                toolInvocations: [toolResult],
-              };
-              await onFinish(finalMessage);
-            }
-
-            isComplete = true;
+      for await (const event of readEventStream(response.body)) {
+        switch (event.type) {
+          case "text-delta":
+            assistantContent += event.delta;
+            break;
+          case "tool-call": {
+            const { type, ...call } = event;
+            toolInvocations = [
+              ...toolInvocations,
+              { ...call, state: "call", result: undefined },
+            ];
             break;
-          } catch (e) {
-            console.error("Failed to parse tool result:", e);
-            // If parsing fails, just show the text part
-            updateMessage(assistantId, {
-              content: textPart,
-              isThinking: false,
-            });
           }
-        } else {
-          // Update with streaming content
-          updateMessage(assistantId, {
-            content: assistantContent,
-            isThinking: false,
-          });
+          case "tool-result": {
+            const { type, ...invocation } = event;
+            toolInvocations = toolInvocations.some(
+              (item) => item.toolCallId === invocation.toolCallId,
+            )
+              ? toolInvocations.map((item) =>
+                  item.toolCallId === invocation.toolCallId
+                    ? invocation
+                    : item,
+                )
+              : [...toolInvocations, invocation];
+            break;
+          }
+          case "usage": {
+            const { type, ...tokens } = event;
+            usage = tokens;
+            break;
+          }
+          case "error":
+            assistantContent = assistantContent || event.message;
+            break;
+          case "done":
+            metadata = event.metadata;
+            break;
         }
-      }
 
-      // Handle case where no tool results were found
-      if (!assistantContent.includes("TOOL_RESULT:")) {
         updateMessage(assistantId, {
           content: assistantContent,
+          toolInvocations,
+          metadata,
           isThinking: false,
         });
+      }
 
-        // Call onFinish for text-only responses
-        if (onFinish) {
-          const finalMessage: Message = {
-            id: assistantId,
-            role: "assistant",
+      await onFinish?.({
+        id: assistantId,
+        parentId,
+        role: "assistant",
+        content: assistantContent,
+        toolInvocations,
+        usage,
+        metadata,
+      });
+      return true;
+    } catch (error) {
+      if (abortController.signal.aborted) {
+        // The server saves the partial answer; mirror it locally and drop
+        // tool calls that never finished
+        if (started) {
+          updateMessage(assistantId, {
             content: assistantContent,
-            toolInvocations: [],
-          };
-          await onFinish(finalMessage);
+            toolInvocations: toolInvocations.filter(
+              (invocation) => invocation.state !== "call",
+            ),
+            interrupted: true,
+            isThinking: false,
+          });
         }
+        return true;
       }
-    } catch (error) {
-      console.error("Chat error:", error);
 
-      const errorMessage: Message = {
-        id: generateId(),
-        role: "assistant",
-        content: "Sorry, I encountered an error. Please try again.",
-        toolInvocations: [],
-      };
-
-      setMessages((prev) => [...prev, errorMessage]);
+      console.error("Chat error:", error);
+      toast.error("Sorry, I encountered an error. Please try again.");
+
+      setMessages((prev) =>
+        prev.filter(
+          (msg) => msg.id !== assistantId && msg.id !== userMessage?.id,
+        ),
+      );
+      setLeafId(previousLeafId);
+      return false;
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
     }
   };
 
+  // Build a question that follows `parent`, or starts the chat
+  const createUserMessage = (
+    content: string,
+    parent: Message | undefined,
+  ): Message => ({
+    id: generateId(),
+    parentId: parent ? parent.id : null,
+    role: "user",
+    content,
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!input.trim() || isLoading) return;
+
+    const content = input.trim();
+
+    // Clear input immediately for better UX
+    setInput("");
+
+    // New questions continue from whichever variant is currently shown
+    const userMessage = createUserMessage(content, branch[branch.length - 1]);
+    const sent = await streamAnswer(userMessage.id, userMessage);
+
+    // Give the question back so it can be sent again
+    if (!sent) setInput(content);
+  };
+
+  // Reply without going through the input, e.g. with a choice made on a card
+  const sendMessage = async (content: string) => {
+    if (isLoading || !content.trim()) return;
+
+    const userMessage = createUserMessage(
+      content.trim(),
+      branch[branch.length - 1],
+    );
+    await streamAnswer(userMessage.id, userMessage);
+  };
+
+  // Fork the conversation: the edited question becomes a sibling of the
+  // original, which stays reachable through the variant pager
+  const editMessage = async (messageId: string, content: string) => {
+    const index = branch.findIndex((message) => message.id === messageId);
+    if (isLoading || !content.trim() || branch[index]?.role !== "user") return;
+
+    const userMessage = createUserMessage(content.trim(), branch[index - 1]);
+    await streamAnswer(userMessage.id, userMessage);
+  };
+
+  // Ask for another answer to the last question, kept as a sibling variant
+  const regenerate = async () => {
+    const last = branch[branch.length - 1];
+    if (isLoading || last?.role !== "assistant" || !last.parentId) return;
+
+    await streamAnswer(last.parentId);
+  };
+
+  // Show another variant and the newest conversation that grew from it
+  const selectVariant = useCallback(
+    (messageId: string) => {
+      setLeafId(getLatestLeaf(messages, messageId));
+    },
+    [messages],
+  );
+
+  // Cancel the in-flight request; the server stops the model and any tools
+  const stop = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
   const clearMessages = useCallback(() => {
     setMessages([]);
+    setLeafId(null);
   }, []);
 
   const setQuickInput = useCallback((value: string) => {
@@ -206,14 +334,23 @@ export function useChat({ api, onFinish }: UseChatProps) {
       id: msg.id || generateId(),
     }));
     setMessages(validatedMessages);
+
+    // Open the chat on its most recently written branch
+    const newest = validatedMessages[validatedMessages.length - 1];
+    setLeafId(newest ? newest.id : null);
   }, []);
 
   return {
-    messages,
+    messages: branch,
     input,
     isLoading,
     handleInputChange,
     handleSubmit,
+    sendMessage,
+    regenerate,
+    editMessage,
+    selectVariant,
+    stop,
     setMessages: setMessagesFromExternal,
     clearMessages,
     setQuickInput,
@@ -4,14 +4,32 @@ import { useState } from "react";
 
 interface Message {
   id: string;
+  parentId?: string | null;
   role: "user" | "assistant";
   content: string;
   toolInvocations?: any[];
+  interrupted?: boolean;
 }
 
+export interface ChatSettings {
+  provider: string | null;
+  model: string | null;
+  // Replaces the default assistant persona for this chat
+  systemPrompt: string | null;
+}
+
+const DEFAULT_CHAT_SETTINGS: ChatSettings = {
+  provider: null,
+  model: null,
+  systemPrompt: null,
+};
+
 export function useChatManager() {
   const [currentChatId, setCurrentChatId] = useState<string | null>(null);
   const [useLocalStorage, setUseLocalStorage] = useState(false);
+  const [chatSettings, setChatSettings] = useState<ChatSettings>(
+    DEFAULT_CHAT_SETTINGS,
+  );
 
   // Helper function to try database first, then fallback to local storage
   const tryWithFallback = async <T>(
@@ -34,39 +52,16 @@ export function useChatManager() {
     }
   };
 
-  const saveMessage = async (
-    chatId: string,
-    role: string,
-    content: string,
-    toolInvocations?: any,
-  ) => {
-    await tryWithFallback(
-      async () => {
-        const response = await fetch(`/api/chats/${chatId}/messages`, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ role, content, toolInvocations }),
-        });
-        if (!response.ok) throw new Error(`HTTP ${response.status}`);
-      },
-      async () => {
-        const response = await fetch(`/api/chats-local/${chatId}/messages`, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ role, content, toolInvocations }),
-        });
-        if (!response.ok) throw new Error(`HTTP ${response.status}`);
-      },
-    );
-  };
-
   const createChat = async (title: string): Promise<string | null> => {
     return tryWithFallback(
       async () => {
         const response = await fetch("/api/chats", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ title: title.slice(0, 50) || "New Chat" }),
+          body: JSON.stringify({
+            title: title.slice(0, 50) || "New Chat",
+            ...chatSettings,
+          }),
         });
 
         if (response.ok) {
@@ -104,12 +99,19 @@ export function useChatManager() {
       async () => {
         const response = await fetch(`/api/chats/${chatId}`);
         if (response.ok) {
-          const { messages: chatMessages } = await response.json();
+          const { chat, messages: chatMessages } = await response.json();
+          setChatSettings({
+            provider: chat.provider ?? null,
+            model: chat.model ?? null,
+            systemPrompt: chat.systemPrompt ?? null,
+          });
           return chatMessages.map((msg: any) => ({
             id: msg.id,
+            parentId: msg.parentId,
             role: msg.role,
             content: msg.content,
             toolInvocations: msg.toolInvocations,
+            interrupted: msg.interrupted,
           }));
         }
         throw new Error(`HTTP ${response.status}`);
@@ -120,9 +122,11 @@ export function useChatManager() {
           const { messages: chatMessages } = await response.json();
           return chatMessages.map((msg: any) => ({
             id: msg.id,
+            parentId: msg.parentId,
             role: msg.role,
             content: msg.content,
             toolInvocations: msg.toolInvocations,
+            interrupted: msg.interrupted,
           }));
         }
         throw new Error(`HTTP ${response.status}`);
@@ -130,37 +134,36 @@ export function useChatManager() {
     );
   };
 
-  const handleChatSubmit = async (
-    userInput: string,
-    onSubmit: (e: React.FormEvent) => void,
-  ) => {
-    // Create chat if needed (async, don't wait)
-    let chatId = currentChatId;
-    if (!currentChatId) {
-      chatId = await createChat(userInput);
-    }
-
-    // Save user message to existing or new chat
-    if (chatId) {
-      await saveMessage(chatId, "user", userInput);
-    }
-
-    // Trigger the UI updates for responsiveness
-    onSubmit({} as React.FormEvent);
-  };
-
   const startNewChat = () => {
     setCurrentChatId(null);
+    setChatSettings(DEFAULT_CHAT_SETTINGS);
+  };
+
+  // Change provider/model or the chat prompt; saved on the chat once it exists
+  const updateChatSettings = async (settings: Partial<ChatSettings>) => {
+    setChatSettings((previous) => ({ ...previous, ...settings }));
+    if (!currentChatId || useLocalStorage) return;
+
+    try {
+      const response = await fetch(`/api/chats/${currentChatId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(settings),
+      });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    } catch (error) {
+      console.warn("Failed to save chat settings:", error);
+    }
   };
 
   return {
     currentChatId,
-    saveMessage,
     createChat,
     loadChat,
-    handleChatSubmit,
     startNewChat,
     setCurrentChatId,
+    chatSettings,
+    updateChatSettings,
     useLocalStorage, // Expose this for debugging
   };
 }
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest"
+import { runAgent } from "./agent"
+import { ScriptedProvider } from "./scripted"
+import type { ChatStreamEvent } from "./stream"
+import type { AIResponse, LLMProvider } from "./types"
+
+async function run(question: string, provider: LLMProvider = new ScriptedProvider()) {
+  const events: ChatStreamEvent[] = []
+  const result = await runAgent([{ role: "user", content: question }], {
+    provider,
+    onEvent: (event) => events.push(event),
+  })
+  return { result, events }
+}
+
+describe("runAgent", () => {
+  it("runs the tool a scripted turn asks for and answers from its result", async () => {
+    const { result, events } = await run("What's the weather in Berlin?")
+
+    expect(result.finishReason).toBe("stop")
+    expect(result.steps).toBe(2)
+    expect(result.content).toBe("Here's the current weather in Berlin.")
+    expect(result.toolInvocations).toHaveLength(1)
+    expect(result.toolInvocations[0]).toMatchObject({
+      toolName: "getWeather",
+      args: { city: "Berlin" },
+      state: "result",
+      step: 1,
+      result: { source: "fixtures", city: "Berlin", country: "DE" },
+    })
+
+    expect(events.slice(0, 2).map((event) => event.type)).toEqual(["tool-call", "tool-result"])
+    const deltas = events.flatMap((event) => (event.type === "text-delta" ? [event.delta] : []))
+    expect(deltas.join("")).toBe(result.content)
+  })
+
+  it("passes a list of symbols from the question to the tool", async () => {
+    const { result } = await run("Compare AAPL, MSFT and GOOGL")
+
+    expect(result.toolInvocations[0]).toMatchObject({
+      toolName: "compareStocks",
+      args: { symbols: ["AAPL", "MSFT", "GOOGL"], range: "1M" },
+      state: "result",
+    })
+  })
+
+  it("asks the user to choose when a place name is ambiguous", async () => {
+    const { result } = await run("What's the weather in Springfield, US?")
+
+    expect(result.toolInvocations[0].result).toMatchObject({ type: "ambiguous-location" })
+    expect(result.content).toBe("I found more than one place matching Springfield, US. Which one do you mean?")
+  })
+
+  it("hands a failing tool call back to the model instead of rejecting", async () => {
+    const provider = new ScriptedProvider([
+      {
+        name: "unknown-tool",
+        match: "^break$",
+        turns: [{ toolCalls: [{ toolName: "getHoroscope", args: {} }] }, { text: ["That didn't work."] }],
+      },
+    ])
+    const { result } = await run("break", provider)
+
+    expect(result.toolInvocations[0]).toMatchObject({ toolName: "getHoroscope", state: "error" })
+    expect(result.content).toBe("That didn't work.")
+  })
+
+  it("stops at the step limit and asks for a final answer", async () => {
+    // The last turn repeats for every later call, so this model never stops asking
+    const weather = { toolName: "getWeather", args: { city: "Paris" } }
+    const provider = new ScriptedProvider([
+      { name: "loop", match: "^loop$", turns: [{ toolCalls: [weather] }, { text: ["Giving up."], toolCalls: [weather] }] },
+    ])
+    const result = await runAgent([{ role: "user", content: "loop" }], { provider, maxSteps: 2 })
+
+    expect(result.finishReason).toBe("max-steps")
+    expect(result.steps).toBe(3)
+    expect(result.toolInvocations).toHaveLength(2)
+    expect(result.content).toBe("Giving up.")
+  })
+
+  it("rejects when the provider fails", async () => {
+    const failing: LLMProvider = {
+      id: "scripted",
+      label: "Failing",
+      defaultModel: "fixtures",
+      models: ["fixtures"],
+      isConfigured: () => true,
+      countTokens: async () => 0,
+      async *streamResponse(): AsyncGenerator<string, AIResponse> {
+        throw new Error("Upstream unavailable")
+      },
+    }
+
+    await expect(run("Hello", failing)).rejects.toThrow("Upstream unavailable")
+  })
+})
@@ -0,0 +1,148 @@
+import { trimToolResult } from "./context"
+import type { ChatStreamEvent, FinishReason } from "./stream"
+import { executeTool, type ToolContext, type ToolInvocation } from "./tools"
+import type { AIResponse, ConversationMessage, LLMProvider, TokenUsage, ToolCall } from "./types"
+
+export const DEFAULT_MAX_STEPS = Number(process.env.AGENT_MAX_STEPS) || 5
+
+export interface AgentOptions {
+  provider: LLMProvider
+  /** Model to use instead of the provider's default */
+  model?: string
+  /** System prompt to use instead of the default, e.g. with a history summary */
+  system?: string
+  /** Maximum number of model calls that may request tools */
+  maxSteps?: number
+  /** Receives text deltas and tool events as the loop progresses */
+  onEvent?: (event: ChatStreamEvent) => void
+  /** Stops the loop, the provider request and any running tools */
+  signal?: AbortSignal
+  /** Who the tools run for, e.g. so remembered facts land on the right user */
+  toolContext?: Omit<ToolContext, "signal">
+}
+
+export interface AgentResult {
+  content: string
+  toolInvocations: ToolInvocation[]
+  steps: number
+  usage: TokenUsage
+  finishReason: FinishReason
+  /** Null when the model never produced text */
+  timeToFirstTokenMs: number | null
+}
+
+/**
+ * Run the model in a loop: every tool call it requests is executed and the
+ * results are appended to the conversation, until the model answers without
+ * asking for more tools or the step limit is hit.
+ */
+export async function runAgent(
+  messages: ConversationMessage[],
+  { provider, model, system, maxSteps = DEFAULT_MAX_STEPS, onEvent, signal, toolContext }: AgentOptions
+): Promise<AgentResult> {
+  const conversation = [...messages]
+  const toolInvocations: ToolInvocation[] = []
+  const usage: TokenUsage = { promptTokens: 0, completionTokens: 0 }
+  const startedAt = Date.now()
+  let timeToFirstTokenMs: number | null = null
+  let hasText = false
+
+  // Forward deltas as they arrive; text from separate steps is kept apart
+  const generate = async (allowTools: boolean): Promise<AIResponse> => {
+    const stream = provider.streamResponse(conversation, { model, system, allowTools, signal })
+    let separate = hasText
+
+    let next = await stream.next()
+    while (!next.done) {
+      if (next.value) {
+        timeToFirstTokenMs ??= Date.now() - startedAt
+        onEvent?.({ type: "text-delta", delta: separate ? `\n\n${next.value}` : next.value })
+        separate = false
+        hasText = true
+      }
+      next = await stream.next()
+    }
+
+    const response = next.value
+    usage.promptTokens += response.usage?.promptTokens ?? 0
+    usage.completionTokens += response.usage?.completionTokens ?? 0
+    return response
+  }
+
+  const finish = (content: string, steps: number, finishReason: FinishReason): AgentResult => ({
+    content,
+    toolInvocations,
+    steps,
+    usage,
+    finishReason,
+    timeToFirstTokenMs,
+  })
+
+  for (let step = 1; step <= maxSteps; step++) {
+    const { content, toolCalls } = await generate(true)
+
+    if (toolCalls.length === 0) {
+      return finish(content, step, "stop")
+    }
+
+    conversation.push({ role: "assistant", content, toolCalls })
+
+    // Calls from the same turn run concurrently; invokeTool only rejects on
+    // abort, so one failing tool cannot take down the others
+    const results = await Promise.all(
+      toolCalls.map(async (toolCall) => {
+        onEvent?.({ type: "tool-call", toolCallId: toolCall.id, toolName: toolCall.toolName, args: toolCall.args, step })
+        const invocation = await invokeTool(toolCall, step, { ...toolContext, signal })
+        onEvent?.({ type: "tool-result", ...invocation })
+        return invocation
+      })
+    )
+
+    // The client still gets full results for its cards; the model gets a
+    // trimmed copy so one large payload cannot blow the context budget
+    for (const invocation of results) {
+      toolInvocations.push(invocation)
+      conversation.push({
+        role: "tool",
+        toolCallId: invocation.toolCallId,
+        toolName: invocation.toolName,
+        result: trimToolResult(invocation.result),
+      })
+    }
+  }
+
+  // Out of steps: ask for a final answer from the data gathered so far
+  const { content } = await generate(false)
+  return finish(content, maxSteps + 1, "max-steps")
+}
+
+/**
+ * Run a model-requested tool through the registry. Failures are captured on
+ * the invocation so the model can see them and recover; only an abort
+ * rejects.
+ */
+async function invokeTool(toolCall: ToolCall, step: number, context: ToolContext): Promise<ToolInvocation> {
+  const { signal } = context
+  const base = {
+    toolCallId: toolCall.id,
+    toolName: toolCall.toolName,
+    args: toolCall.args,
+    step,
+  }
+
+  try {
+    const outcome = await executeTool(toolCall.toolName, toolCall.args, context)
+    return outcome.success
+      ? { ...base, state: "result", result: outcome.data, metadata: outcome.metadata }
+      : { ...base, state: "error", result: { error: outcome.error } }
+  } catch (error) {
+    // A stopped request is not a tool failure; let it end the loop
+    if (signal?.aborted) throw error
+    console.error("Tool call failed:", error)
+    return {
+      ...base,
+      state: "error",
+      result: { error: error instanceof Error ? error.message : "Unknown error" },
+    }
+  }
+}
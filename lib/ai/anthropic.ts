@@ -0,0 +1,133 @@
+import Anthropic from "@anthropic-ai/sdk"
+import type { MessageParam, Tool, ToolResultBlockParam } from "@anthropic-ai/sdk/resources/messages"
+import { SYSTEM_PROMPT } from "./prompt"
+import { estimatePromptTokens } from "./tokens"
+import { getToolSchema } from "./tools"
+import type { AIResponse, ConversationMessage, GenerateOptions, LLMProvider } from "./types"
+
+const client = process.env.ANTHROPIC_API_KEY ? new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY }) : null
+
+const MAX_TOKENS = 2048
+
+export class AnthropicProvider implements LLMProvider {
+  readonly id = "anthropic" as const
+  readonly label = "Anthropic Claude"
+  readonly defaultModel = process.env.ANTHROPIC_MODEL || "claude-3-5-haiku-latest"
+  readonly models = ["claude-3-5-haiku-latest", "claude-3-7-sonnet-latest", "claude-sonnet-4-0"]
+
+  isConfigured(): boolean {
+    return !!client
+  }
+
+  async *streamResponse(messages: ConversationMessage[], options: GenerateOptions = {}): AsyncGenerator<string, AIResponse> {
+    if (!client) {
+      throw new Error(`${this.label} is not configured`)
+    }
+
+    try {
+      const stream = client.messages.stream({
+        model: options.model || this.defaultModel,
+        max_tokens: MAX_TOKENS,
+        system: options.system ?? SYSTEM_PROMPT,
+        messages: this.buildMessages(messages),
+        tools: getTools(),
+        tool_choice: { type: options.allowTools === false ? "none" : "auto" },
+      }, { signal: options.signal })
+
+      for await (const event of stream) {
+        if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
+          yield event.delta.text
+        }
+      }
+
+      const response = await stream.finalMessage()
+      let content = ""
+      const toolCalls: AIResponse["toolCalls"] = []
+      for (const block of response.content) {
+        if (block.type === "text") {
+          content += block.text
+        } else if (block.type === "tool_use") {
+          toolCalls.push({ id: block.id, toolName: block.name, args: block.input as Record<string, any> })
+        }
+      }
+
+      return {
+        content: content.trim(),
+        toolCalls,
+        usage: {
+          promptTokens: response.usage.input_tokens,
+          completionTokens: response.usage.output_tokens,
+        },
+      }
+    } catch (error) {
+      // The caller decides what the user sees; a stopped request is not an error
+      if (!options.signal?.aborted) console.error("Anthropic API error:", error)
+      throw error
+    }
+  }
+
+  async countTokens(messages: ConversationMessage[], options: Pick<GenerateOptions, "model" | "system"> = {}): Promise<number> {
+    if (!client) return estimatePromptTokens(messages, options.system)
+
+    try {
+      const { input_tokens } = await client.messages.countTokens({
+        model: options.model || this.defaultModel,
+        system: options.system ?? SYSTEM_PROMPT,
+        messages: this.buildMessages(messages),
+        tools: getTools(),
+      })
+      return input_tokens
+    } catch (error) {
+      console.error("Anthropic token count failed:", error)
+      return estimatePromptTokens(messages, options.system)
+    }
+  }
+
+  private buildMessages(messages: ConversationMessage[]): MessageParam[] {
+    const result: MessageParam[] = []
+
+    for (const msg of messages) {
+      if (msg.role === "tool") {
+        // Tool results are sent back as tool_result blocks in a user turn
+        const block: ToolResultBlockParam = {
+          type: "tool_result",
+          tool_use_id: msg.toolCallId,
+          content: JSON.stringify(msg.result),
+        }
+        const previous = result[result.length - 1]
+        if (previous?.role === "user" && Array.isArray(previous.content)) {
+          previous.content.push(block)
+        } else {
+          result.push({ role: "user", content: [block] })
+        }
+      } else if (msg.role === "assistant" && msg.toolCalls?.length) {
+        result.push({
+          role: "assistant",
+          content: [
+            ...(msg.content ? [{ type: "text" as const, text: msg.content }] : []),
+            ...msg.toolCalls.map((call) => ({
+              type: "tool_use" as const,
+              id: call.id,
+              name: call.toolName,
+              input: call.args,
+            })),
+          ],
+        })
+      } else {
+        result.push({ role: msg.role, content: msg.content })
+      }
+    }
+
+    return result
+  }
+}
+
+function getTools(): Tool[] {
+  return getToolSchema().map((tool) => ({
+    name: tool.name,
+    description: tool.description,
+    input_schema: tool.parameters as Tool.InputSchema,
+  }))
+}
+
+export const anthropicProvider = new AnthropicProvider()
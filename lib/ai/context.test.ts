@@ -0,0 +1,147 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { prepareContext, trimToolResult, type HistoryMessage } from "./context"
+import { estimateMessageTokens } from "./tokens"
+import type { ConversationMessage, LLMProvider } from "./types"
+
+// Counts only the messages, so budgets below are easy to reason about, and
+// answers every summary request with `summary` (or fails with it)
+function fakeProvider(summary: string | Error) {
+  const requests: ConversationMessage[][] = []
+  const provider: LLMProvider = {
+    id: "scripted",
+    label: "Fake",
+    defaultModel: "fake",
+    models: ["fake"],
+    isConfigured: () => true,
+    async *streamResponse(messages) {
+      requests.push(messages)
+      if (summary instanceof Error) throw summary
+      return { content: summary, toolCalls: [] }
+    },
+    countTokens: async (messages) => messages.reduce((total, message) => total + estimateMessageTokens(message), 0),
+  }
+  return { provider, requests }
+}
+
+const text = (label: string) => `${label} `.repeat(50)
+
+// Each message is about 80 tokens; the second turn calls a tool
+const history: HistoryMessage[] = [
+  { id: "u1", role: "user", content: text("first question") },
+  { id: "a1", role: "assistant", content: text("first answer") },
+  { id: "u2", role: "user", content: text("weather question") },
+  { id: "a2", role: "assistant", content: "", toolCalls: [{ id: "call-1", toolName: "getWeather", args: { city: "Berlin" } }] },
+  { id: "t2", role: "tool", toolCallId: "call-1", toolName: "getWeather", result: { summary: text("sunny") } },
+  { id: "a2b", role: "assistant", content: text("weather answer") },
+  { id: "u3", role: "user", content: text("last question") },
+]
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe("prepareContext", () => {
+  it("sends the whole history when it fits", async () => {
+    const { provider, requests } = fakeProvider("unused")
+    const result = await prepareContext(history, { provider, budget: 10_000 })
+
+    expect(result.messages).toHaveLength(history.length)
+    expect(result.updatedSummary).toBeUndefined()
+    expect(requests).toHaveLength(0)
+  })
+
+  it("only folds up to a user turn, so a tool call stays with its result", async () => {
+    for (const budget of [150, 250, 350, 450, 550]) {
+      const { provider } = fakeProvider("Earlier turns.")
+      const result = await prepareContext(history, { provider, budget })
+
+      expect(result.updatedSummary).toBeDefined()
+      expect(result.messages[0]).toMatchObject({ role: "user" })
+      const through = history.findIndex((message) => message.id === result.updatedSummary?.throughMessageId)
+      expect(history[through + 1]).toMatchObject({ role: "user" })
+    }
+  })
+
+  it("always keeps the latest user turn", async () => {
+    const { provider } = fakeProvider("Earlier turns.")
+    const result = await prepareContext(history, { provider, budget: 1 })
+
+    expect(result.messages).toEqual([{ role: "user", content: text("last question") }])
+    expect(result.updatedSummary).toEqual({ text: "Earlier turns.", throughMessageId: "a2b" })
+    expect(result.system).toContain("Earlier turns.")
+  })
+
+  it("replaces the turns a stored summary covers with the summary", async () => {
+    const { provider } = fakeProvider("unused")
+    const result = await prepareContext(history, {
+      provider,
+      budget: 10_000,
+      summary: { text: "The user asked a first question.", throughMessageId: "a1" },
+    })
+
+    expect(result.messages[0]).toMatchObject({ role: "user", content: text("weather question") })
+    expect(result.system).toContain("The user asked a first question.")
+  })
+
+  it("ignores a summary stored for another branch", async () => {
+    const { provider } = fakeProvider("unused")
+    const result = await prepareContext(history, {
+      provider,
+      budget: 10_000,
+      summary: { text: "A different conversation.", throughMessageId: "elsewhere" },
+    })
+
+    expect(result.messages).toHaveLength(history.length)
+    expect(result.system).not.toContain("A different conversation.")
+  })
+
+  it("keeps the stored summary when summarizing fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {})
+    const { provider, requests } = fakeProvider(new Error("overloaded"))
+    const summary = { text: "The user asked a first question.", throughMessageId: "a1" }
+    const result = await prepareContext(history, { provider, budget: 1, summary })
+
+    expect(requests).toHaveLength(1)
+    expect(result.updatedSummary).toBeUndefined()
+    expect(result.system).toContain(summary.text)
+    expect(result.messages).toEqual([{ role: "user", content: text("last question") }])
+  })
+
+  it("does not store an empty summary", async () => {
+    const { provider } = fakeProvider("  ")
+    const result = await prepareContext(history, { provider, budget: 1 })
+
+    expect(result.updatedSummary).toBeUndefined()
+  })
+
+  it("shortens large tool results in the history", async () => {
+    const { provider } = fakeProvider("unused")
+    const large: HistoryMessage[] = [
+      { id: "u1", role: "user", content: "Forecast?" },
+      { id: "t1", role: "tool", toolCallId: "call-1", toolName: "getWeatherForecast", result: { days: "x".repeat(5000) } },
+    ]
+    const result = await prepareContext(large, { provider, budget: 10_000 })
+
+    expect(result.messages[1]).toMatchObject({ role: "tool", result: { truncated: true } })
+  })
+})
+
+describe("trimToolResult", () => {
+  it("returns small results unchanged", () => {
+    const result = { temperature: 21 }
+
+    expect(trimToolResult(result)).toBe(result)
+    expect(trimToolResult(undefined)).toBeUndefined()
+  })
+
+  it("cuts large results down to a preview of the JSON", () => {
+    const result = { items: Array.from({ length: 100 }, (_, index) => `item-${index}`) }
+    const json = JSON.stringify(result)
+
+    expect(trimToolResult(result, 50)).toEqual({
+      truncated: true,
+      note: `Result shortened from ${json.length} characters; only the start is shown.`,
+      preview: json.slice(0, 50),
+    })
+  })
+})
@@ -0,0 +1,170 @@
+import { buildSystemPrompt, SUMMARY_PROMPT, type SystemPromptParts } from "./prompt"
+import { generateText } from "./providers"
+import { estimateMessageTokens, estimatePromptTokens } from "./tokens"
+import type { ConversationMessage, LLMProvider } from "./types"
+
+/** Prompt tokens a request may use before older turns are summarized */
+export const CONTEXT_BUDGET_TOKENS = Number(process.env.CONTEXT_BUDGET_TOKENS) || 16000
+
+/** Tool results larger than this (as JSON) are cut down before the model sees them */
+export const MAX_TOOL_RESULT_CHARS = Number(process.env.MAX_TOOL_RESULT_CHARS) || 4000
+
+// Folding stops once the prompt is back under this share of the budget, so
+// the next few turns fit without summarizing again
+const FOLD_TARGET = 0.6
+
+/** A stored message; the id lets the summary record how far it reaches */
+export type HistoryMessage = ConversationMessage & { id?: string }
+
+export interface ContextSummary {
+  text: string
+  /** Last message folded into the summary */
+  throughMessageId: string
+}
+
+export interface ContextOptions {
+  provider: LLMProvider
+  model?: string
+  budget?: number
+  /** Chat prompt and custom instructions to build the system prompt from */
+  prompt?: Omit<SystemPromptParts, "summary">
+  /** Summary stored for this chat by an earlier request */
+  summary?: ContextSummary | null
+  signal?: AbortSignal
+}
+
+export interface PreparedContext {
+  messages: ConversationMessage[]
+  system: string
+  promptTokens: number
+  /** Set when older turns were folded into a new summary that should be stored */
+  updatedSummary?: ContextSummary
+}
+
+/**
+ * Fit a chat's history into the context budget. Messages already covered by
+ * the stored summary are replaced by it; if the rest is still too large, the
+ * oldest turns are folded into an updated summary. The latest user turn is
+ * always kept in full.
+ */
+export async function prepareContext(
+  history: HistoryMessage[],
+  { provider, model, budget = CONTEXT_BUDGET_TOKENS, prompt = {}, summary, signal }: ContextOptions
+): Promise<PreparedContext> {
+  // A summary from another branch of the chat does not apply to this one
+  const summaryIndex = summary ? history.findIndex((message) => message.id === summary.throughMessageId) : -1
+  const summaryText = summaryIndex >= 0 ? summary!.text : null
+  const recent = history.slice(summaryIndex + 1).map(trimToolMessage)
+
+  const system = buildSystemPrompt({ ...prompt, summary: summaryText })
+  const promptTokens = await provider.countTokens(recent, { model, system })
+  if (promptTokens <= budget) {
+    return { messages: recent, system, promptTokens }
+  }
+
+  const cut = findFoldPoint(recent, system, promptTokens, budget)
+  if (cut === 0) {
+    return { messages: recent, system, promptTokens }
+  }
+
+  const folded = recent.slice(0, cut)
+  const kept = recent.slice(cut)
+  const text = await summarize(provider, model, summaryText, folded, signal)
+
+  // Without a new summary the folded turns are only left out of this request;
+  // the stored summary is kept and the fold is retried next time
+  if (!text) {
+    return { messages: kept, system, promptTokens: await provider.countTokens(kept, { model, system }) }
+  }
+
+  const foldedThrough = history[summaryIndex + cut] as HistoryMessage
+  const updatedSystem = buildSystemPrompt({ ...prompt, summary: text })
+
+  return {
+    messages: kept,
+    system: updatedSystem,
+    promptTokens: await provider.countTokens(kept, { model, system: updatedSystem }),
+    updatedSummary: foldedThrough.id ? { text, throughMessageId: foldedThrough.id } : undefined,
+  }
+}
+
+/**
+ * Shrink a tool result that would crowd out the rest of the prompt. Small
+ * results are returned unchanged; large ones become a truncated JSON preview
+ * the model is told is incomplete.
+ */
+export function trimToolResult(result: unknown, maxChars = MAX_TOOL_RESULT_CHARS): unknown {
+  const json = JSON.stringify(result ?? null)
+  if (json.length <= maxChars) return result
+
+  return {
+    truncated: true,
+    note: `Result shortened from ${json.length} characters; only the start is shown.`,
+    preview: json.slice(0, maxChars),
+  }
+}
+
+function trimToolMessage(message: HistoryMessage): ConversationMessage {
+  const { id, ...rest } = message
+  return rest.role === "tool" ? { ...rest, result: trimToolResult(rest.result) } : rest
+}
+
+/**
+ * Number of leading messages to fold so the prompt drops under the target.
+ * Per-message sizes are estimates, scaled to match the provider's count for
+ * the whole prompt. Cuts only land on user turns, so a tool call is never
+ * separated from its result.
+ */
+function findFoldPoint(messages: ConversationMessage[], system: string, promptTokens: number, budget: number): number {
+  const scale = promptTokens / Math.max(estimatePromptTokens(messages, system), 1)
+  const lastUserIndex = messages.map((message) => message.role).lastIndexOf("user")
+  let remaining = promptTokens
+  let cut = 0
+
+  for (let index = 0; index < lastUserIndex && remaining > budget * FOLD_TARGET; index++) {
+    remaining -= estimateMessageTokens(messages[index]) * scale
+    if (messages[index + 1].role === "user") {
+      cut = index + 1
+    }
+  }
+
+  return cut
+}
+
+/**
+ * Merge messages into the running summary. Returns null when the model call
+ * fails or comes back empty, so an error never ends up stored as the summary.
+ */
+async function summarize(
+  provider: LLMProvider,
+  model: string | undefined,
+  previousSummary: string | null,
+  messages: ConversationMessage[],
+  signal?: AbortSignal
+): Promise<string | null> {
+  const transcript = messages
+    .map((message) => {
+      if (message.role === "tool") {
+        return `Tool ${message.toolName} returned: ${JSON.stringify(message.result)}`
+      }
+      return `${message.role === "user" ? "User" : "Assistant"}: ${message.content}`
+    })
+    .join("\n")
+
+  const request = previousSummary
+    ? `Previous summary:\n${previousSummary}\n\nNew messages:\n${transcript}`
+    : `Messages:\n${transcript}`
+
+  try {
+    const { content } = await generateText(provider, [{ role: "user", content: request }], {
+      model,
+      system: SUMMARY_PROMPT,
+      signal,
+    })
+    return content.trim() || null
+  } catch (error) {
+    if (signal?.aborted) throw error
+    console.error("Failed to summarize chat history:", error)
+    return null
+  }
+}
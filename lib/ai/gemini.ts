@@ -1,157 +1,158 @@
-import { GoogleGenerativeAI } from "@google/generative-ai"
+import {
+  FunctionCallingMode,
+  GoogleGenerativeAI,
+  type Content,
+  type FunctionDeclaration,
+  type FunctionDeclarationSchema,
+  type GenerateContentRequest,
+} from "@google/generative-ai"
+import { getToolSchema } from "./tools"
+import { SYSTEM_PROMPT } from "./prompt"
+import { estimatePromptTokens } from "./tokens"
+import type { AIResponse, ConversationMessage, GenerateOptions, LLMProvider, ToolCall } from "./types"
 
 const genAI = process.env.GOOGLE_API_KEY ? new GoogleGenerativeAI(process.env.GOOGLE_API_KEY) : null
 
-export interface ToolCall {
-  toolName: string
-  args: Record<string, any>
-}
+export class GeminiService implements LLMProvider {
+  readonly id = "gemini" as const
+  readonly label = "Google Gemini"
+  readonly defaultModel = process.env.GEMINI_MODEL || "gemini-1.5-flash"
+  readonly models = ["gemini-1.5-flash", "gemini-1.5-pro", "gemini-2.0-flash"]
 
-export interface AIResponse {
-  content: string
-  toolCalls: ToolCall[]
-}
+  isConfigured(): boolean {
+    return !!genAI
+  }
 
-export class GeminiService {
-  private model = genAI?.getGenerativeModel({ model: "gemini-1.5-flash" })
+  async *streamResponse(messages: ConversationMessage[], options: GenerateOptions = {}): AsyncGenerator<string, AIResponse> {
+    if (!genAI) {
+      throw new Error(`${this.label} is not configured`)
+    }
 
-  async generateResponse(messages: any[]): Promise<AIResponse> {
+    let content = ""
     try {
-      // If no API key is configured, return a helpful message
-      if (!genAI || !this.model) {
-        return {
-          content: "Hi! I'm your AI assistant. To enable full functionality, please add your GOOGLE_API_KEY to the .env.local file. For now, I can help with basic responses!",
-          toolCalls: [],
+      const model = genAI.getGenerativeModel({ model: options.model || this.defaultModel })
+      const result = await model.generateContentStream(
+        this.buildPrompt(messages, options.allowTools ?? true, options.system),
+        { signal: options.signal }
+      )
+
+      for await (const chunk of result.stream) {
+        const delta = chunk.text()
+        if (delta) {
+          content += delta
+          yield delta
         }
       }
 
-      const prompt = this.buildPrompt(messages)
-      
-      const result = await this.model.generateContent(prompt)
+      // Tool calls come back as structured functionCall parts. Gemini gives
+      // them no ids, and results are matched back by id, so each gets a UUID
       const response = await result.response
-      const text = response.text()
-
-      // Parse the response to extract tool calls
-      const { content, toolCalls } = this.parseResponse(text)
+      const toolCalls: ToolCall[] = (response.functionCalls() ?? []).map((call) => ({
+        id: crypto.randomUUID(),
+        toolName: call.name,
+        args: (call.args ?? {}) as Record<string, any>,
+      }))
 
       return {
-        content,
+        content: content.trim(),
         toolCalls,
+        usage: response.usageMetadata && {
+          promptTokens: response.usageMetadata.promptTokenCount,
+          completionTokens: response.usageMetadata.candidatesTokenCount,
+        },
       }
     } catch (error) {
-      console.error("Gemini API error:", error)
-      return {
-        content: "I'm having trouble processing your request right now. Please check your GOOGLE_API_KEY in .env.local and try again.",
-        toolCalls: [],
-      }
+      // The caller decides what the user sees; a stopped request is not an error
+      if (!options.signal?.aborted) console.error("Gemini API error:", error)
+      throw error
     }
   }
 
-  private buildPrompt(messages: any[]): string {
-    const systemPrompt = `You are a helpful AI assistant. Respond naturally and conversationally to user questions.
+  async countTokens(messages: ConversationMessage[], options: Pick<GenerateOptions, "model" | "system"> = {}): Promise<number> {
+    if (!genAI) return estimatePromptTokens(messages, options.system)
 
-For specific queries, you can use these tools:
-- Weather: Use getWeather with city and country
-- Formula 1: Use getF1Matches with type (latest-race, standings, schedule)  
-- Stocks: Use getStockPrice with symbol
-
-When using tools, provide a complete response first, then add the tool call on a single line in this exact format:
-
-TOOL_CALL: {"toolName": "tool_name", "args": {"param": "value"}}
-
-Examples:
-- Weather: TOOL_CALL: {"toolName": "getWeather", "args": {"city": "London", "country": "UK"}}
-- F1: TOOL_CALL: {"toolName": "getF1Matches", "args": {"type": "latest-race"}}
-- Stock: TOOL_CALL: {"toolName": "getStockPrice", "args": {"symbol": "AAPL"}}
-
-IMPORTANT: Keep the tool call JSON on a single line and ensure it's complete.`
-
-    const conversation = messages
-      .map((msg) => `${msg.role === "user" ? "User" : "Assistant"}: ${msg.content}`)
-      .join("\n")
-
-    return `${systemPrompt}\n\nConversation:\n${conversation}\n\nAssistant:`
+    try {
+      const model = genAI.getGenerativeModel({ model: options.model || this.defaultModel })
+      const { totalTokens } = await model.countTokens({
+        generateContentRequest: this.buildPrompt(messages, true, options.system),
+      })
+      return totalTokens
+    } catch (error) {
+      console.error("Gemini token count failed:", error)
+      return estimatePromptTokens(messages, options.system)
+    }
   }
 
-  private parseResponse(text: string): { content: string; toolCalls: ToolCall[] } {
-    // Look for tool call pattern on a single line
-    const toolCallMatch = text.match(/TOOL_CALL:\s*(\{.*?\})/i)
-    
-    if (toolCallMatch) {
-      try {
-        let toolCallJson = toolCallMatch[1].trim()
-        
-        // Basic cleanup
-        toolCallJson = toolCallJson
-          .replace(/,\s*}/g, '}')     // Remove trailing commas
-          .replace(/,\s*]/g, ']')     // Remove trailing commas
-          .trim()
-        
-        // If JSON is incomplete (missing closing brace), try to fix it
-        if (!toolCallJson.endsWith('}')) {
-          const openBraces = (toolCallJson.match(/\{/g) || []).length
-          const closeBraces = (toolCallJson.match(/\}/g) || []).length
-          if (openBraces > closeBraces) {
-            toolCallJson += '}'.repeat(openBraces - closeBraces)
-          }
-        }
-        
-        let toolCall
-        try {
-          toolCall = JSON.parse(toolCallJson)
-        } catch (parseError) {
-          // If JSON parsing fails, extract manually from the raw text
-          const rawJson = toolCallMatch[1]
-          console.log("Attempting manual extraction from:", rawJson)
-          
-          // Extract toolName
-          const toolNameMatch = rawJson.match(/"toolName":\s*"([^"]+)"/i)
-          if (!toolNameMatch) throw parseError
-          
-          const toolName = toolNameMatch[1]
-          const args: Record<string, any> = {}
-          
-          // Extract args based on tool type
-          if (toolName === 'getWeather') {
-            const cityMatch = rawJson.match(/"city":\s*"([^"]+)"/i)
-            const countryMatch = rawJson.match(/"country":\s*"([^"]+)"/i)
-            if (cityMatch) args.city = cityMatch[1]
-            if (countryMatch) args.country = countryMatch[1]
-          } else if (toolName === 'getStockPrice') {
-            const symbolMatch = rawJson.match(/"symbol":\s*"([^"]+)"/i)
-            if (symbolMatch) args.symbol = symbolMatch[1]
-          } else if (toolName === 'getF1Matches') {
-            const typeMatch = rawJson.match(/"type":\s*"([^"]+)"/i)
-            if (typeMatch) args.type = typeMatch[1]
-          }
-          
-          toolCall = { toolName, args }
-        }
-        
-        // Remove the tool call from the content
-        const content = text.replace(/TOOL_CALL:\s*\{.*?\}/i, "").trim()
-        
-        return {
-          content: content || "Let me get that information for you.",
-          toolCalls: [toolCall],
+  private buildPrompt(messages: ConversationMessage[], allowTools: boolean, system = SYSTEM_PROMPT): GenerateContentRequest {
+    const contents: Content[] = []
+
+    for (const msg of messages) {
+      if (msg.role === "tool") {
+        // Consecutive tool results go back to the model as one function turn
+        const part = { functionResponse: { name: msg.toolName, response: { result: msg.result } } }
+        const previous = contents[contents.length - 1]
+        if (previous?.role === "function") {
+          previous.parts.push(part)
+        } else {
+          contents.push({ role: "function", parts: [part] })
         }
-      } catch (error) {
-        console.error("Failed to parse tool call:", error)
-        console.error("Raw tool call JSON:", toolCallMatch[1])
-        // Return the content without tool calls if parsing fails
-        const content = text.replace(/TOOL_CALL:.*$/i, "").trim()
-        return {
-          content: content || text,
-          toolCalls: [],
+        continue
+      }
+
+      const parts: Content["parts"] = msg.content ? [{ text: msg.content }] : []
+      if (msg.role === "assistant") {
+        for (const call of msg.toolCalls ?? []) {
+          parts.push({ functionCall: { name: call.toolName, args: call.args } })
         }
       }
+      if (parts.length > 0) {
+        contents.push({ role: msg.role === "user" ? "user" : "model", parts })
+      }
     }
 
     return {
-      content: text,
-      toolCalls: [],
+      systemInstruction: system,
+      contents,
+      tools: [{ functionDeclarations: getFunctionDeclarations() }],
+      toolConfig: {
+        functionCallingConfig: {
+          mode: allowTools ? FunctionCallingMode.AUTO : FunctionCallingMode.NONE,
+        },
+      },
+    }
+  }
+}
+
+/**
+ * Expose every tool in the registry as a Gemini function declaration.
+ */
+function getFunctionDeclarations(): FunctionDeclaration[] {
+  return getToolSchema().map((tool) => ({
+    name: tool.name,
+    description: tool.description,
+    parameters: toGeminiSchema(tool.parameters) as FunctionDeclarationSchema,
+  }))
+}
+
+// Gemini takes a subset of OpenAPI schema and rejects keywords outside it,
+// such as the length and range limits zod emits
+const GEMINI_SCHEMA_KEYS = ["type", "format", "description", "nullable", "enum", "properties", "required", "items"]
+
+function toGeminiSchema(schema: Record<string, any>): Record<string, any> {
+  const result: Record<string, any> = {}
+  for (const key of GEMINI_SCHEMA_KEYS) {
+    if (schema[key] === undefined) continue
+    if (key === "properties") {
+      result.properties = Object.fromEntries(
+        Object.entries(schema.properties).map(([name, property]) => [name, toGeminiSchema(property as Record<string, any>)])
+      )
+    } else if (key === "items") {
+      result.items = toGeminiSchema(schema.items)
+    } else {
+      result[key] = schema[key]
     }
   }
+  return result
 }
 
 export const geminiService = new GeminiService()
@@ -0,0 +1,77 @@
+import type { HistoryMessage } from "./context"
+import type { ToolInvocation } from "./tools"
+
+/** The columns of a stored message the model needs to see */
+export interface StoredMessage {
+  id: string
+  role: "user" | "assistant"
+  content: string
+  toolInvocations?: unknown
+}
+
+/**
+ * Turn stored messages into the conversation sent to the model. An assistant
+ * message that used tools is expanded back into its tool-call and tool-result
+ * turns, step by step, so follow-up questions can refer to earlier data.
+ * The stored id ends up on the last turn each message expands to.
+ */
+export function toHistory(messages: StoredMessage[]): HistoryMessage[] {
+  const history: HistoryMessage[] = []
+
+  for (const message of messages) {
+    if (message.role === "user") {
+      history.push({ id: message.id, role: "user", content: message.content })
+      continue
+    }
+
+    const turns: HistoryMessage[] = []
+    const invocations = normalizeInvocations(message.id, message.toolInvocations)
+    const steps = Array.from(new Set(invocations.map((invocation) => invocation.step))).sort((a, b) => a - b)
+
+    for (const step of steps) {
+      const stepInvocations = invocations.filter((invocation) => invocation.step === step)
+      turns.push({
+        role: "assistant",
+        content: "",
+        toolCalls: stepInvocations.map(({ toolCallId, toolName, args }) => ({ id: toolCallId, toolName, args })),
+      })
+      for (const invocation of stepInvocations) {
+        turns.push({
+          role: "tool",
+          toolCallId: invocation.toolCallId,
+          toolName: invocation.toolName,
+          result: invocation.result,
+        })
+      }
+    }
+
+    // Answers stopped before any text arrived have nothing more to add
+    if (message.content) {
+      turns.push({ role: "assistant", content: message.content })
+    }
+
+    if (turns.length > 0) {
+      turns[turns.length - 1].id = message.id
+      history.push(...turns)
+    }
+  }
+
+  return history
+}
+
+// Messages saved before invocations carried ids and steps only have
+// toolName, args and result; calls that never finished are left out
+function normalizeInvocations(messageId: string, value: unknown): ToolInvocation[] {
+  if (!Array.isArray(value)) return []
+
+  return value
+    .filter((invocation) => invocation?.toolName && invocation.state !== "call")
+    .map((invocation, index) => ({
+      toolCallId: invocation.toolCallId || `${messageId}_${index}`,
+      toolName: invocation.toolName,
+      args: invocation.args ?? {},
+      state: invocation.state ?? "result",
+      step: invocation.step ?? 1,
+      result: invocation.result,
+    }))
+}
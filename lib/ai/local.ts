@@ -0,0 +1,14 @@
+import { OpenAICompatibleProvider } from "./openai"
+
+/**
+ * Self-hosted model behind an OpenAI-compatible endpoint, e.g. Ollama at
+ * http://localhost:11434/v1.
+ */
+export const localProvider = new OpenAICompatibleProvider({
+  id: "local",
+  label: "Local model",
+  apiKey: process.env.LOCAL_LLM_API_KEY,
+  baseURL: process.env.LOCAL_LLM_BASE_URL,
+  defaultModel: process.env.LOCAL_LLM_MODEL || "llama3.1",
+  models: [process.env.LOCAL_LLM_MODEL || "llama3.1"],
+})
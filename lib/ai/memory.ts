@@ -0,0 +1,57 @@
+/** Longest fact a memory may hold */
+export const MAX_MEMORY_LENGTH = 300
+
+/** Memories kept per user; the remember tool refuses new ones past this */
+export const MAX_MEMORIES = 100
+
+/** Memories added to a single system prompt */
+export const MAX_PROMPT_MEMORIES = 15
+
+export interface MemoryFact {
+  id: string
+  content: string
+  createdAt: Date | string
+}
+
+// Words that say nothing about what a fact or question is about
+const STOPWORDS = new Set(
+  "a an and are as at be but by can do does for from has have how i in is it its me my of on or our so that the their them they this to was we what when where which who why will with you your".split(
+    " "
+  )
+)
+
+function keywords(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9\u00c0-\u024f]+/)
+      .filter((word) => word.length > 1 && !STOPWORDS.has(word))
+  )
+}
+
+/**
+ * Pick the memories worth putting in the prompt for a question. A user with
+ * only a few memories gets all of them; otherwise memories sharing words
+ * with the question come first, then the newest ones fill the rest.
+ */
+export function selectRelevantMemories<T extends MemoryFact>(
+  memories: T[],
+  query: string,
+  limit = MAX_PROMPT_MEMORIES
+): T[] {
+  if (memories.length <= limit) return memories
+
+  const queryWords = keywords(query)
+  const scored = memories.map((memory) => {
+    let score = 0
+    keywords(memory.content).forEach((word) => {
+      if (queryWords.has(word)) score++
+    })
+    return { memory, score, time: new Date(memory.createdAt).getTime() }
+  })
+
+  return scored
+    .sort((a, b) => b.score - a.score || b.time - a.time)
+    .slice(0, limit)
+    .map(({ memory }) => memory)
+}
@@ -0,0 +1,151 @@
+import OpenAI from "openai"
+import type { ChatCompletionMessageParam, ChatCompletionTool } from "openai/resources/chat/completions"
+import { SYSTEM_PROMPT } from "./prompt"
+import { estimatePromptTokens } from "./tokens"
+import { getToolSchema } from "./tools"
+import type { AIResponse, ConversationMessage, GenerateOptions, LLMProvider, ProviderId } from "./types"
+
+interface OpenAICompatibleConfig {
+  id: ProviderId
+  label: string
+  apiKey?: string
+  baseURL?: string
+  defaultModel: string
+  models: string[]
+}
+
+/**
+ * Adapter for the OpenAI chat completions API. Any server that speaks the same
+ * protocol (Ollama, LM Studio, vLLM) can reuse it with a different base URL.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly id: ProviderId
+  readonly label: string
+  readonly defaultModel: string
+  readonly models: string[]
+  private client: OpenAI | null
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.id = config.id
+    this.label = config.label
+    this.defaultModel = config.defaultModel
+    this.models = config.models
+    this.client = config.apiKey || config.baseURL
+      ? new OpenAI({ apiKey: config.apiKey || "not-needed", baseURL: config.baseURL })
+      : null
+  }
+
+  isConfigured(): boolean {
+    return !!this.client
+  }
+
+  async *streamResponse(messages: ConversationMessage[], options: GenerateOptions = {}): AsyncGenerator<string, AIResponse> {
+    if (!this.client) {
+      throw new Error(`${this.label} is not configured`)
+    }
+
+    let content = ""
+    try {
+      const stream = await this.client.chat.completions.create({
+        model: options.model || this.defaultModel,
+        messages: this.buildMessages(messages, options.system),
+        tools: getTools(),
+        tool_choice: options.allowTools === false ? "none" : "auto",
+        stream: true,
+        stream_options: { include_usage: true },
+      }, { signal: options.signal })
+
+      // Tool call names and arguments arrive in fragments keyed by index
+      const calls: { id: string; name: string; arguments: string }[] = []
+      let usage: AIResponse["usage"]
+
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta
+        if (delta?.content) {
+          content += delta.content
+          yield delta.content
+        }
+        for (const call of delta?.tool_calls ?? []) {
+          const entry = (calls[call.index] ??= { id: "", name: "", arguments: "" })
+          entry.id += call.id ?? ""
+          entry.name += call.function?.name ?? ""
+          entry.arguments += call.function?.arguments ?? ""
+        }
+        if (chunk.usage) {
+          usage = {
+            promptTokens: chunk.usage.prompt_tokens,
+            completionTokens: chunk.usage.completion_tokens,
+          }
+        }
+      }
+
+      return {
+        content: content.trim(),
+        toolCalls: calls.map((call) => ({
+          id: call.id,
+          toolName: call.name,
+          args: parseArguments(call.arguments),
+        })),
+        usage,
+      }
+    } catch (error) {
+      // The caller decides what the user sees; a stopped request is not an error
+      if (!options.signal?.aborted) console.error(`${this.label} API error:`, error)
+      throw error
+    }
+  }
+
+  // The chat completions API has no counting endpoint, and compatible servers
+  // each bring their own tokenizer, so this stays an estimate
+  async countTokens(messages: ConversationMessage[], options: Pick<GenerateOptions, "model" | "system"> = {}): Promise<number> {
+    return estimatePromptTokens(messages, options.system)
+  }
+
+  private buildMessages(messages: ConversationMessage[], system = SYSTEM_PROMPT): ChatCompletionMessageParam[] {
+    const result: ChatCompletionMessageParam[] = [{ role: "system", content: system }]
+
+    for (const msg of messages) {
+      if (msg.role === "tool") {
+        result.push({ role: "tool", tool_call_id: msg.toolCallId, content: JSON.stringify(msg.result) })
+      } else if (msg.role === "assistant" && msg.toolCalls?.length) {
+        result.push({
+          role: "assistant",
+          content: msg.content || null,
+          tool_calls: msg.toolCalls.map((call) => ({
+            id: call.id,
+            type: "function" as const,
+            function: { name: call.toolName, arguments: JSON.stringify(call.args) },
+          })),
+        })
+      } else {
+        result.push({ role: msg.role, content: msg.content })
+      }
+    }
+
+    return result
+  }
+}
+
+function getTools(): ChatCompletionTool[] {
+  return getToolSchema().map((tool) => ({
+    type: "function",
+    function: tool,
+  }))
+}
+
+function parseArguments(raw: string): Record<string, any> {
+  try {
+    return JSON.parse(raw || "{}")
+  } catch {
+    console.error("Invalid tool call arguments:", raw)
+    return {}
+  }
+}
+
+export const openaiProvider = new OpenAICompatibleProvider({
+  id: "openai",
+  label: "OpenAI",
+  apiKey: process.env.OPENAI_API_KEY,
+  defaultModel: process.env.OPENAI_MODEL || "gpt-4o-mini",
+  models: ["gpt-4o-mini", "gpt-4o", "gpt-4.1-mini"],
+})
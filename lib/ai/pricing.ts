@@ -0,0 +1,44 @@
+import type { ProviderId, TokenUsage } from "./types"
+
+/** List price in USD per million tokens */
+export interface ModelPrice {
+  input: number
+  output: number
+}
+
+/**
+ * Prices for the models offered in the picker. Models missing here are still
+ * metered, just without a cost.
+ */
+export const MODEL_PRICING: Partial<Record<ProviderId, Record<string, ModelPrice>>> = {
+  gemini: {
+    "gemini-1.5-flash": { input: 0.075, output: 0.3 },
+    "gemini-1.5-pro": { input: 1.25, output: 5 },
+    "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+  },
+  openai: {
+    "gpt-4o-mini": { input: 0.15, output: 0.6 },
+    "gpt-4o": { input: 2.5, output: 10 },
+    "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  },
+  anthropic: {
+    "claude-3-5-haiku-latest": { input: 0.8, output: 4 },
+    "claude-3-7-sonnet-latest": { input: 3, output: 15 },
+    "claude-sonnet-4-0": { input: 3, output: 15 },
+  },
+}
+
+// Self-hosted and offline models cost nothing per token
+const FREE_PROVIDERS: ProviderId[] = ["local", "scripted"]
+
+export function getModelPrice(provider: ProviderId, model: string): ModelPrice | null {
+  if (FREE_PROVIDERS.includes(provider)) return { input: 0, output: 0 }
+  return MODEL_PRICING[provider]?.[model] ?? null
+}
+
+/** Cost of one call in USD, or null when the model has no known price */
+export function calculateCost(provider: ProviderId, model: string, usage: TokenUsage): number | null {
+  const price = getModelPrice(provider, model)
+  if (!price) return null
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000
+}
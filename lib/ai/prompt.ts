@@ -0,0 +1,56 @@
+const DEFAULT_PERSONA = `You are a helpful AI assistant. Respond naturally and conversationally to user questions.`
+
+const TOOL_GUIDANCE = `You have tools for live weather, air quality and weather alerts, Formula 1 and stock market data. Call them whenever the user asks for that kind of information instead of guessing, and base your answer on the data they return. Use the forecast tool for anything beyond the current conditions.
+
+When a weather tool returns several candidate locations, list them and ask the user which one they mean instead of picking one yourself. Once they choose, call the tool again with the place name followed by its region and country, e.g. "Paris, Texas, US".
+
+When the user tells you something lasting about themselves, such as a team they support, stocks they watch or where they live, save it with the remember tool.`
+
+export const SYSTEM_PROMPT = `${DEFAULT_PERSONA}
+
+${TOOL_GUIDANCE}`
+
+/** Longest custom instructions or chat prompt a user may save */
+export const MAX_INSTRUCTIONS_LENGTH = 2000
+
+export const SUMMARY_PROMPT = `You maintain a running summary of a conversation between a user and an AI assistant. Merge the previous summary (if any) with the new messages into one concise summary.
+
+Keep facts the assistant may need later: the user's goals and preferences, locations, teams and ticker symbols they asked about, and key figures returned by tools. Drop small talk. Write plain prose, no more than 200 words.`
+
+export const TITLE_PROMPT = `Write a short title for the conversation below, as it would appear in a chat history sidebar. Use 2 to 6 words in sentence case, name the concrete subject (a city, team, ticker or topic), and reply with the title only: no quotes, no trailing punctuation.`
+
+export interface SystemPromptParts {
+  /** Per-chat prompt that replaces the default persona */
+  chatPrompt?: string | null
+  /** The user's custom instructions, applied to every chat */
+  instructions?: string | null
+  /** Rolling summary of turns that no longer fit in the context window */
+  summary?: string | null
+  /** Facts remembered about the user from earlier chats */
+  memories?: string[]
+}
+
+/**
+ * Assemble the system prompt for a chat. Tool guidance is always kept, even
+ * when the chat replaces the persona, so the tools keep being used.
+ */
+export function buildSystemPrompt({ chatPrompt, instructions, summary, memories }: SystemPromptParts = {}): string {
+  const sections = [chatPrompt?.trim() || DEFAULT_PERSONA, TOOL_GUIDANCE]
+
+  if (instructions?.trim()) {
+    sections.push(`The user has asked you to follow these instructions in every chat:
+${instructions.trim()}`)
+  }
+
+  if (memories && memories.length > 0) {
+    sections.push(`What you remember about the user from earlier chats; use it when it helps, without reciting it:
+${memories.map((memory) => `- ${memory}`).join("\n")}`)
+  }
+
+  if (summary) {
+    sections.push(`Summary of the earlier conversation, which is no longer shown in full:
+${summary}`)
+  }
+
+  return sections.join("\n\n")
+}
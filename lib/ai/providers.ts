@@ -0,0 +1,74 @@
+import { anthropicProvider } from "./anthropic"
+import { geminiService } from "./gemini"
+import { localProvider } from "./local"
+import { openaiProvider } from "./openai"
+import { scriptedProvider } from "./scripted"
+import type { AIResponse, ConversationMessage, GenerateOptions, LLMProvider, ProviderId } from "./types"
+
+/**
+ * Every available adapter, keyed by the id stored on chats. An adapter only
+ * counts as available once its credentials are present in the environment.
+ */
+export const providers: Record<ProviderId, LLMProvider> = {
+  gemini: geminiService,
+  openai: openaiProvider,
+  anthropic: anthropicProvider,
+  local: localProvider,
+  // Always available, so it is last in line as the offline fallback
+  scripted: scriptedProvider,
+}
+
+export const DEFAULT_PROVIDER = (process.env.LLM_PROVIDER as ProviderId) || "gemini"
+
+export function isProviderId(value: unknown): value is ProviderId {
+  return typeof value === "string" && value in providers
+}
+
+/**
+ * Pick the provider for a request: the requested one if it is configured,
+ * otherwise the env default, otherwise any configured provider. With no
+ * credentials at all this ends at the scripted provider.
+ */
+export function resolveProvider(requested?: string | null): LLMProvider {
+  const candidates = [requested, DEFAULT_PROVIDER, ...Object.keys(providers)]
+
+  for (const id of candidates) {
+    if (isProviderId(id) && providers[id].isConfigured()) {
+      return providers[id]
+    }
+  }
+
+  return scriptedProvider
+}
+
+/**
+ * Public description of every provider, for the model picker.
+ */
+export function listProviders() {
+  return Object.values(providers).map((provider) => ({
+    id: provider.id,
+    label: provider.label,
+    defaultModel: provider.defaultModel,
+    models: provider.models,
+    configured: provider.isConfigured(),
+  }))
+}
+
+/**
+ * Run a model call to completion without streaming, for background work such
+ * as summaries where nobody is waiting on the deltas.
+ */
+export async function generateText(
+  provider: LLMProvider,
+  messages: ConversationMessage[],
+  options: GenerateOptions = {}
+): Promise<AIResponse> {
+  const stream = provider.streamResponse(messages, { allowTools: false, ...options })
+
+  let next = await stream.next()
+  while (!next.done) {
+    next = await stream.next()
+  }
+
+  return next.value
+}
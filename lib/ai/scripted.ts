@@ -0,0 +1,212 @@
+import fs from "fs"
+import path from "path"
+import summaryFixtures from "./fixtures/00-summary.json"
+import titleFixtures from "./fixtures/00-title.json"
+import weatherFixtures from "./fixtures/10-weather.json"
+import f1Fixtures from "./fixtures/20-f1.json"
+import stockFixtures from "./fixtures/30-stocks.json"
+import memoryFixtures from "./fixtures/40-memory.json"
+import smalltalkFixtures from "./fixtures/90-smalltalk.json"
+import { estimatePromptTokens } from "./tokens"
+import type { AIResponse, ConversationMessage, GenerateOptions, LLMProvider, ToolCall } from "./types"
+
+/**
+ * One scripted exchange. `match` is tested (case-insensitive by default)
+ * against the latest user message; its named groups can be referenced as
+ * `{{name}}` in text deltas and tool arguments. In an argument list,
+ * `"{{...name}}"` expands a group such as "AAPL, MSFT and GOOGL" into one
+ * entry per item. Each entry in `turns` answers one model call: the first
+ * call gets turns[0], the call after its tool results gets turns[1], and so
+ * on.
+ */
+export interface ScriptedFixture {
+  name: string
+  match?: string
+  flags?: string
+  /** Used when no other fixture matches */
+  fallback?: boolean
+  turns: ScriptedTurn[]
+}
+
+export interface ScriptedTurn {
+  text?: string[]
+  toolCalls?: { toolName: string; args: Record<string, any> }[]
+  /**
+   * Turns to use instead when a tool result of the previous round has a
+   * matching `type`, e.g. "ambiguous-location"
+   */
+  onResult?: Record<string, ScriptedTurn>
+}
+
+// The fixtures in lib/ai/fixtures are bundled with the code, so they are
+// found wherever the server runs. When several patterns match, the earlier
+// fixture wins, which is why the files carry a numeric prefix.
+const BUNDLED_FIXTURES = [
+  ...summaryFixtures,
+  ...titleFixtures,
+  ...weatherFixtures,
+  ...f1Fixtures,
+  ...stockFixtures,
+  ...memoryFixtures,
+  ...smalltalkFixtures,
+] as ScriptedFixture[]
+
+// Optional pause between deltas so demos look like a live model
+const DELTA_DELAY_MS = Number(process.env.SCRIPTED_DELTA_DELAY_MS) || 0
+
+/**
+ * Deterministic provider that replays conversation fixtures from JSON files.
+ * It needs no network or credentials, so it backs local demos and tests and
+ * is what the chat falls back to when no real model is configured.
+ */
+export class ScriptedProvider implements LLMProvider {
+  readonly id = "scripted" as const
+  readonly label = "Scripted (offline)"
+  readonly defaultModel = "fixtures"
+  readonly models = ["fixtures"]
+
+  private fixtures: ScriptedFixture[] | null
+
+  /**
+   * Replays `source`: a list of fixtures, or a directory of fixture files
+   * that is read on first use. SCRIPTED_FIXTURES_DIR replaces the bundled
+   * set without a code change.
+   */
+  constructor(private source: ScriptedFixture[] | string = process.env.SCRIPTED_FIXTURES_DIR || BUNDLED_FIXTURES) {
+    this.fixtures = typeof source === "string" ? null : source
+  }
+
+  isConfigured(): boolean {
+    return true
+  }
+
+  async *streamResponse(messages: ConversationMessage[], options: GenerateOptions = {}): AsyncGenerator<string, AIResponse> {
+    const turn = this.nextTurn(messages, options.allowTools ?? true)
+
+    for (const delta of turn.text) {
+      options.signal?.throwIfAborted()
+      if (DELTA_DELAY_MS > 0) {
+        await new Promise((resolve) => setTimeout(resolve, DELTA_DELAY_MS))
+      }
+      yield delta
+    }
+
+    return {
+      content: turn.text.join(""),
+      toolCalls: turn.toolCalls,
+    }
+  }
+
+  async countTokens(messages: ConversationMessage[], options: Pick<GenerateOptions, "model" | "system"> = {}): Promise<number> {
+    return estimatePromptTokens(messages, options.system)
+  }
+
+  /**
+   * Resolve the scripted turn that answers the current model call, with
+   * templates filled in from the matched user message.
+   */
+  nextTurn(messages: ConversationMessage[], allowTools: boolean): { text: string[]; toolCalls: ToolCall[] } {
+    const lastUserIndex = messages.map((msg) => msg.role).lastIndexOf("user")
+    const lastUser = messages[lastUserIndex]
+    const input = lastUser?.role === "user" ? lastUser.content : ""
+
+    const { fixture, groups } = this.findFixture(input)
+    if (!fixture) {
+      return { text: [], toolCalls: [] }
+    }
+
+    // Every tool round since the user spoke moves the script one turn ahead
+    const round = messages
+      .slice(lastUserIndex + 1)
+      .filter((msg) => msg.role === "assistant" && msg.toolCalls?.length).length
+    const index = allowTools ? round : fixture.turns.length - 1
+    const scripted = fixture.turns[Math.min(index, fixture.turns.length - 1)]
+    const resultType = latestResultTypes(messages).find((type) => scripted.onResult?.[type])
+    const turn = resultType ? scripted.onResult![resultType] : scripted
+
+    return {
+      text: (turn.text ?? []).map((value) => fillTemplate(value, groups)),
+      toolCalls: allowTools
+        ? (turn.toolCalls ?? []).map((call, callIndex) => ({
+            id: `scripted_${fixture.name}_${round}_${callIndex}`,
+            toolName: call.toolName,
+            args: fillArgs(call.args, groups),
+          }))
+        : [],
+    }
+  }
+
+  private findFixture(input: string): { fixture?: ScriptedFixture; groups: Record<string, string> } {
+    const fixtures = this.loadFixtures()
+
+    for (const fixture of fixtures) {
+      if (!fixture.match) continue
+      const match = input.match(new RegExp(fixture.match, fixture.flags ?? "i"))
+      if (match) {
+        const groups: Record<string, string> = { input }
+        Object.entries(match.groups ?? {}).forEach(([name, value]) => {
+          if (value !== undefined) groups[name] = value.trim()
+        })
+        return { fixture, groups }
+      }
+    }
+
+    return { fixture: fixtures.find((fixture) => fixture.fallback), groups: { input } }
+  }
+
+  /**
+   * Fixture files are read once, in file name order, so a numeric prefix
+   * controls which script wins when several patterns match.
+   */
+  private loadFixtures(): ScriptedFixture[] {
+    if (!this.fixtures) {
+      const dir = this.source as string
+      this.fixtures = fs
+        .readdirSync(dir)
+        .filter((file) => file.endsWith(".json"))
+        .sort()
+        .flatMap((file) => {
+          const contents = JSON.parse(fs.readFileSync(path.join(dir, file), "utf8"))
+          return Array.isArray(contents) ? contents : [contents]
+        })
+    }
+    return this.fixtures!
+  }
+}
+
+// The `type` tags of the tool results that end the conversation
+function latestResultTypes(messages: ConversationMessage[]): string[] {
+  const types: string[] = []
+  for (let index = messages.length - 1; index >= 0; index--) {
+    const message = messages[index]
+    if (message.role !== "tool") break
+    const type = (message.result as { type?: unknown } | null)?.type
+    if (typeof type === "string") types.push(type)
+  }
+  return types
+}
+
+function fillTemplate(value: string, groups: Record<string, string>): string {
+  return value.replace(/\{\{(\w+)\}\}/g, (_, name) => groups[name] ?? "")
+}
+
+function fillArgs(value: any, groups: Record<string, string>): any {
+  if (typeof value === "string") return fillTemplate(value, groups)
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => {
+      const spread = typeof item === "string" ? item.match(/^\{\{\.\.\.(\w+)\}\}$/) : null
+      return spread ? splitList(groups[spread[1]] ?? "") : [fillArgs(item, groups)]
+    })
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fillArgs(item, groups)]))
+  }
+  return value
+}
+
+// "AAPL, MSFT and GOOGL" or "AAPL vs MSFT" as separate items
+function splitList(value: string): string[] {
+  return value.split(/\s*(?:[,&/]|\band\b|\bvs\b\.?|\bwith\b)\s*/).filter(Boolean)
+}
+
+export const scriptedProvider = new ScriptedProvider()
@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from "vitest"
+import { encodeEvent, readEventStream, type ChatStreamEvent } from "./stream"
+
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk))
+      controller.close()
+    },
+  })
+}
+
+async function readAll(chunks: string[]) {
+  const events: ChatStreamEvent[] = []
+  for await (const event of readEventStream(streamOf(chunks))) events.push(event)
+  return events
+}
+
+const hello: ChatStreamEvent = { type: "text-delta", delta: "Hello" }
+const done: ChatStreamEvent = { type: "done", finishReason: "stop" }
+
+describe("readEventStream", () => {
+  it("reads back what encodeEvent wrote", async () => {
+    expect(await readAll([encodeEvent(hello) + encodeEvent(done)])).toEqual([hello, done])
+  })
+
+  it("joins an event split across chunks", async () => {
+    const body = encodeEvent(hello) + encodeEvent(done)
+    const chunks = [body.slice(0, 7), body.slice(7, 30), body.slice(30)]
+
+    expect(await readAll(chunks)).toEqual([hello, done])
+  })
+
+  it("joins a character split across chunks", async () => {
+    const bytes = new TextEncoder().encode(encodeEvent({ type: "text-delta", delta: "22°C" }))
+    const cut = bytes.indexOf(0xb0)
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(bytes.slice(0, cut))
+        controller.enqueue(bytes.slice(cut))
+        controller.close()
+      },
+    })
+
+    const events: ChatStreamEvent[] = []
+    for await (const event of readEventStream(body)) events.push(event)
+    expect(events).toEqual([{ type: "text-delta", delta: "22°C" }])
+  })
+
+  it("reads a last line that has no newline", async () => {
+    expect(await readAll([encodeEvent(hello), JSON.stringify(done)])).toEqual([hello, done])
+  })
+
+  it("skips a malformed line and keeps reading", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {})
+
+    expect(await readAll([encodeEvent(hello), '{"type":"text-del\n', encodeEvent(done)])).toEqual([hello, done])
+    expect(warn).toHaveBeenCalledOnce()
+    warn.mockRestore()
+  })
+})
@@ -0,0 +1,64 @@
+import type { ToolInvocation } from "./tools"
+import type { TokenUsage } from "./types"
+
+/**
+ * Events written to the /api/chat response body, one JSON object per line
+ * (NDJSON). `done` is always the last event of a response.
+ */
+export type ChatStreamEvent =
+  | { type: "text-delta"; delta: string }
+  | ({ type: "tool-call" } & Omit<ToolInvocation, "state" | "result">)
+  | ({ type: "tool-result" } & ToolInvocation)
+  | { type: "error"; message: string }
+  | ({ type: "usage" } & TokenUsage)
+  | { type: "done"; finishReason: FinishReason; metadata?: ResponseMetadata }
+
+export type FinishReason = "stop" | "max-steps" | "error"
+
+export interface ResponseMetadata {
+  provider: string
+  model: string
+  steps: number
+  /** Milliseconds from the request reaching the agent to the first text delta */
+  timeToFirstTokenMs: number | null
+}
+
+export const CHAT_STREAM_CONTENT_TYPE = "application/x-ndjson"
+
+export function encodeEvent(event: ChatStreamEvent): string {
+  return `${JSON.stringify(event)}\n`
+}
+
+/**
+ * Parse a response body written with `encodeEvent`, yielding one event per
+ * line. Lines can be split across network chunks, so anything after the last
+ * newline is buffered until the next chunk arrives. A line that isn't valid
+ * JSON is skipped rather than failing the whole answer.
+ */
+export async function* readEventStream(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatStreamEvent> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+
+  while (true) {
+    const { done, value } = await reader.read()
+    buffer += decoder.decode(value, { stream: !done })
+
+    const lines = buffer.split("\n")
+    buffer = done ? "" : lines.pop() || ""
+
+    for (const line of lines) {
+      if (!line.trim()) continue
+      let event: ChatStreamEvent
+      try {
+        event = JSON.parse(line)
+      } catch {
+        console.warn("Skipping malformed stream line:", line)
+        continue
+      }
+      yield event
+    }
+
+    if (done) return
+  }
+}
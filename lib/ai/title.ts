@@ -0,0 +1,44 @@
+import { TITLE_PROMPT } from "./prompt"
+import { generateText } from "./providers"
+import type { LLMProvider } from "./types"
+
+const MAX_TITLE_LENGTH = 60
+
+// Only the start of each message is needed to name the conversation
+const EXCERPT_LENGTH = 1000
+
+/**
+ * Ask the model for a short sidebar title describing the first exchange of a
+ * chat. Returns null when the model call fails or gives back nothing
+ * usable, so the prompt-derived title is left in place.
+ */
+export async function generateChatTitle(
+  provider: LLMProvider,
+  model: string | undefined,
+  question: string,
+  answer: string
+): Promise<string | null> {
+  const response = await generateText(
+    provider,
+    [
+      {
+        role: "user",
+        content: `User: ${question.slice(0, EXCERPT_LENGTH)}\nAssistant: ${answer.slice(0, EXCERPT_LENGTH)}`,
+      },
+    ],
+    { model, system: TITLE_PROMPT }
+  ).catch((error) => {
+    console.error("Failed to generate chat title:", error)
+    return null
+  })
+  if (!response) return null
+
+  const title = response.content
+    .split("\n")[0]
+    .replace(/^["'`*#\s]+|["'`*.!?\s]+$/g, "")
+    .replace(/^title:\s*/i, "")
+    .trim()
+
+  if (!title) return null
+  return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 3).trimEnd()}...` : title
+}
@@ -0,0 +1,35 @@
+import { getToolSchema } from "./tools"
+import { SYSTEM_PROMPT } from "./prompt"
+import type { ConversationMessage } from "./types"
+
+// Rough average for English text across the tokenizers we use
+const CHARS_PER_TOKEN = 4
+
+// Role markers and message framing each vendor adds around every turn
+const TOKENS_PER_MESSAGE = 4
+
+export function estimateTextTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN)
+}
+
+export function estimateMessageTokens(message: ConversationMessage): number {
+  const body =
+    message.role === "tool"
+      ? JSON.stringify(message.result ?? null)
+      : message.content + (message.role === "assistant" && message.toolCalls ? JSON.stringify(message.toolCalls) : "")
+
+  return TOKENS_PER_MESSAGE + estimateTextTokens(body)
+}
+
+/**
+ * Character-based prompt size for providers without a tokenizer we can call.
+ * Counts the system prompt and tool declarations too, since they are resent
+ * with every request.
+ */
+export function estimatePromptTokens(messages: ConversationMessage[], system = SYSTEM_PROMPT): number {
+  return (
+    estimateTextTokens(system) +
+    estimateTextTokens(JSON.stringify(getToolSchema())) +
+    messages.reduce((total, message) => total + estimateMessageTokens(message), 0)
+  )
+}
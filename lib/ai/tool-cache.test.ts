@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { MemoryToolCache, toolCacheKey, type CacheEntry } from "./tool-cache"
+
+const entry = (value: unknown, ttlMs = 60_000): CacheEntry => ({
+  value,
+  storedAt: Date.now(),
+  expiresAt: Date.now() + ttlMs,
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe("toolCacheKey", () => {
+  it("trims and lowercases strings and sorts argument names", () => {
+    expect(toolCacheKey("getWeather", "fixtures", { city: " Paris ", country: "FR" })).toBe(
+      toolCacheKey("getWeather", "fixtures", { country: "fr", city: "paris" })
+    )
+  })
+
+  it("sorts lists of strings", () => {
+    expect(toolCacheKey("compareStocks", "fixtures", { symbols: ["MSFT", "aapl "] })).toBe(
+      toolCacheKey("compareStocks", "fixtures", { symbols: ["AAPL", "msft"] })
+    )
+  })
+
+  it("leaves out arguments that are undefined", () => {
+    expect(toolCacheKey("getF1Matches", undefined, { type: "standings", season: undefined })).toBe(
+      toolCacheKey("getF1Matches", undefined, { type: "standings" })
+    )
+  })
+
+  it("keeps tools, backends and other values apart", () => {
+    const key = toolCacheKey("getWeather", "fixtures", { city: "Paris" })
+
+    expect(toolCacheKey("getWeatherForecast", "fixtures", { city: "Paris" })).not.toBe(key)
+    expect(toolCacheKey("getWeather", "openweather", { city: "Paris" })).not.toBe(key)
+    expect(toolCacheKey("getWeather", "fixtures", { city: "Paris, Texas" })).not.toBe(key)
+    expect(toolCacheKey("getWeatherForecast", "fixtures", { city: "Paris", days: 3 })).not.toBe(
+      toolCacheKey("getWeatherForecast", "fixtures", { city: "Paris", days: 5 })
+    )
+  })
+})
+
+describe("MemoryToolCache", () => {
+  it("returns an entry until it expires", async () => {
+    vi.useFakeTimers()
+    const cache = new MemoryToolCache()
+    await cache.set("key", entry("value", 1000))
+
+    vi.advanceTimersByTime(999)
+    expect(await cache.get("key")).toMatchObject({ value: "value" })
+
+    vi.advanceTimersByTime(1)
+    expect(await cache.get("key")).toBeNull()
+  })
+
+  it("drops the oldest entries past 500", async () => {
+    const cache = new MemoryToolCache()
+    for (let index = 0; index < 501; index++) {
+      await cache.set(`key-${index}`, entry(index))
+    }
+
+    expect(await cache.get("key-0")).toBeNull()
+    expect(await cache.get("key-1")).toMatchObject({ value: 1 })
+    expect(await cache.get("key-500")).toMatchObject({ value: 500 })
+  })
+
+  it("counts a rewritten entry as the newest", async () => {
+    const cache = new MemoryToolCache()
+    for (let index = 0; index < 500; index++) {
+      await cache.set(`key-${index}`, entry(index))
+    }
+    await cache.set("key-0", entry("again"))
+    await cache.set("key-500", entry(500))
+
+    expect(await cache.get("key-0")).toMatchObject({ value: "again" })
+    expect(await cache.get("key-1")).toBeNull()
+  })
+})
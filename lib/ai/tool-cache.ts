@@ -0,0 +1,145 @@
+import { gt, lt, and, eq } from "drizzle-orm"
+import { db } from "@/lib/db"
+import { toolCache } from "@/lib/db/schema"
+
+export interface CacheEntry {
+  value: unknown
+  /** Epoch milliseconds */
+  storedAt: number
+  expiresAt: number
+}
+
+/** Where cached tool results live; entries past `expiresAt` count as missing */
+export interface ToolCacheStore {
+  get(key: string): Promise<CacheEntry | null>
+  set(key: string, entry: CacheEntry): Promise<void>
+}
+
+// Bounds memory use; the oldest entries go first
+const MAX_MEMORY_ENTRIES = 500
+
+/**
+ * Per-process cache. Each server instance keeps its own copy, and it is
+ * emptied on restart.
+ */
+export class MemoryToolCache implements ToolCacheStore {
+  private entries = new Map<string, CacheEntry>()
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const entry = this.entries.get(key)
+    if (!entry) return null
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key)
+      return null
+    }
+    return entry
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    // Re-inserting moves the key to the end of the Map's insertion order
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    while (this.entries.size > MAX_MEMORY_ENTRIES) {
+      const oldest = this.entries.keys().next().value
+      if (oldest === undefined) break
+      this.entries.delete(oldest)
+    }
+  }
+}
+
+// Expired rows are swept on every this many writes
+const SWEEP_EVERY_WRITES = 100
+
+/**
+ * Cache shared by every server instance through the tool_cache table, so
+ * rate-limited APIs are called once per TTL across the deployment.
+ */
+export class PostgresToolCache implements ToolCacheStore {
+  private writes = 0
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const [row] = await db
+      .select()
+      .from(toolCache)
+      .where(and(eq(toolCache.key, key), gt(toolCache.expiresAt, new Date())))
+      .limit(1)
+
+    return row
+      ? { value: row.value, storedAt: row.storedAt.getTime(), expiresAt: row.expiresAt.getTime() }
+      : null
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const row = {
+      value: entry.value,
+      storedAt: new Date(entry.storedAt),
+      expiresAt: new Date(entry.expiresAt),
+    }
+    await db
+      .insert(toolCache)
+      .values({ key, ...row })
+      .onConflictDoUpdate({ target: toolCache.key, set: row })
+
+    if (++this.writes % SWEEP_EVERY_WRITES === 0) {
+      await db.delete(toolCache).where(lt(toolCache.expiresAt, new Date()))
+    }
+  }
+}
+
+let store: ToolCacheStore | null | undefined
+
+/**
+ * The store picked by TOOL_CACHE: "memory" (the default), "postgres", or
+ * "off" to call the tools every time.
+ */
+export function getToolCache(): ToolCacheStore | null {
+  if (store === undefined) {
+    const mode = process.env.TOOL_CACHE || "memory"
+    store = mode === "off" ? null : mode === "postgres" ? new PostgresToolCache() : new MemoryToolCache()
+  }
+  return store
+}
+
+/**
+ * Cache key for a call: the tool, the backend serving it and the arguments
+ * with keys sorted and strings trimmed and lowercased, so "Paris" and
+ * " paris" share an entry. Lists of strings are sorted too, so comparing
+ * AAPL with MSFT and MSFT with AAPL is one entry.
+ */
+export function toolCacheKey(toolName: string, scope: string | undefined, args: Record<string, unknown>): string {
+  const normalized = Object.keys(args)
+    .sort()
+    .filter((name) => args[name] !== undefined)
+    .map((name) => [name, normalizeArg(args[name])])
+
+  return [toolName, scope ?? "", JSON.stringify(normalized)].join(":")
+}
+
+function normalizeArg(value: unknown): unknown {
+  if (typeof value === "string") return value.trim().toLowerCase()
+  if (Array.isArray(value) && value.every((item) => typeof item === "string")) {
+    return value.map((item: string) => item.trim().toLowerCase()).sort()
+  }
+  return value
+}
+
+/**
+ * Read `key` from the cache, or run `load` and keep its result for
+ * `ttlSeconds`. For data fetched outside a tool call, such as the chart
+ * ranges a card switches between.
+ */
+export async function cached<T>(key: string, ttlSeconds: number, load: () => Promise<T>): Promise<T> {
+  const cache = getToolCache()
+  const entry = await cache?.get(key).catch((error) => {
+    console.error("Tool cache read failed:", error)
+    return null
+  })
+  if (entry) return entry.value as T
+
+  const value = await load()
+  const storedAt = Date.now()
+  await cache?.set(key, { value, storedAt, expiresAt: storedAt + ttlSeconds * 1000 }).catch((error) => {
+    console.error("Tool cache write failed:", error)
+  })
+  return value
+}
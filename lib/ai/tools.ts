@@ -1,67 +1,301 @@
-import { getWeatherData } from "@/lib/api/weather"
-import { getF1Data } from "@/lib/api/f1"
-import { getStockData } from "@/lib/api/stocks"
+import { z } from "zod/v4"
+import {
+  getAirQualityAndAlerts,
+  getWeatherBackend,
+  getWeatherData,
+  getWeatherForecast,
+  MAX_FORECAST_DAYS,
+} from "@/lib/api/weather"
+import { getF1Backend, getF1Data } from "@/lib/api/f1"
+import {
+  compareStocks,
+  getStockBackend,
+  getStockData,
+  getStockSeries,
+  MAX_COMPARED_STOCKS,
+} from "@/lib/api/stocks"
+import { F1_DATA_TYPES, STOCK_RANGES } from "@/lib/api/types"
+import { saveMemory } from "@/lib/memories"
+import { MAX_MEMORIES, MAX_MEMORY_LENGTH } from "./memory"
+import { getToolCache, toolCacheKey } from "./tool-cache"
 
-export interface Tool {
+/**
+ * A tool the model can call. Arguments are declared with a zod object schema,
+ * which types `execute`, validates what the model sends and produces the JSON
+ * Schema providers get in their function declarations.
+ */
+export interface Tool<TParameters extends z.ZodObject = z.ZodObject> {
   name: string
   description: string
-  parameters: Record<string, any>
-  execute: (args: any) => Promise<any>
+  parameters: TParameters
+  execute(args: z.output<TParameters>, context: ToolContext): Promise<unknown>
+  /** Reuse results for identical arguments; tools with side effects leave this out */
+  cache?: ToolCachePolicy<z.output<TParameters>>
+}
+
+export interface ToolCachePolicy<TArgs> {
+  /** How long a result stays fresh, which may depend on what was asked */
+  ttlSeconds(args: TArgs): number
+  /** The backend serving the call, so switching backends starts a fresh cache */
+  scope?(): string
+}
+
+/** Identity helper so `execute` infers its argument type from the schema */
+export function defineTool<TParameters extends z.ZodObject>(tool: Tool<TParameters>): Tool<TParameters> {
+  return tool
+}
+
+export interface ToolResultMetadata {
+  /** Present for tools with a cache policy */
+  cache?: {
+    hit: boolean
+    /** Seconds since the result was fetched; 0 on a miss */
+    ageSeconds: number
+    ttlSeconds: number
+  }
+}
+
+export type ToolOutcome =
+  | { success: true; data: unknown; metadata?: ToolResultMetadata }
+  | { success: false; error: string }
+
+export interface ToolContext {
+  /** Aborted when the user stops generation */
+  signal?: AbortSignal
+  /** The signed-in user the tool runs for */
+  userId?: string
+  /** The chat the tool was called from */
+  chatId?: string
+}
+
+export interface ToolInvocation {
+  toolCallId: string
+  toolName: string
+  args: Record<string, any>
+  /** "call" while the tool is running, then whether it returned data or failed */
+  state: "call" | "result" | "error"
+  /** Agent step (1-based) in which the model requested the call */
+  step: number
+  result: any
+  /** How the result was produced, e.g. whether it came from the cache */
+  metadata?: ToolResultMetadata
 }
 
 export const tools: Record<string, Tool> = {
-  getWeather: {
+  getWeather: defineTool({
     name: "getWeather",
-    description: "Get weather information for a specific location",
-    parameters: {
-      city: { type: "string", description: "City name" },
-      country: { type: "string", description: "Country code (optional)" },
+    description:
+      "Get the current weather for a location. When the name matches several places, returns the candidates instead, for the user to choose from.",
+    parameters: z.object({
+      city: z
+        .string()
+        .trim()
+        .min(1)
+        .describe('Place name, optionally narrowed down with its region and country, e.g. "Paris, Texas, US"'),
+      country: z.string().optional().describe("Country code (optional)"),
+    }),
+    execute: async ({ city, country }, { signal }) => {
+      return await getWeatherData(city, country, { signal })
+    },
+    cache: {
+      ttlSeconds: () => 10 * 60,
+      scope: () => getWeatherBackend().id,
+    },
+  }),
+  getWeatherForecast: defineTool({
+    name: "getWeatherForecast",
+    description:
+      "Get the weather forecast for a location: daily highs, lows and chance of precipitation, plus temperature and precipitation in 3-hour steps. Use for questions about later today or the coming days, such as whether it will rain at the weekend.",
+    parameters: z.object({
+      city: z
+        .string()
+        .trim()
+        .min(1)
+        .describe('Place name, optionally narrowed down with its region and country, e.g. "Paris, Texas, US"'),
+      country: z.string().optional().describe("Country code (optional)"),
+      days: z
+        .number()
+        .int()
+        .min(1)
+        .max(MAX_FORECAST_DAYS)
+        .default(MAX_FORECAST_DAYS)
+        .describe(`Number of days to forecast, starting today (1-${MAX_FORECAST_DAYS})`),
+      hours: z
+        .number()
+        .int()
+        .min(3)
+        .max(MAX_FORECAST_DAYS * 24)
+        .default(24)
+        .describe("How many hours ahead the hourly steps should cover"),
+    }),
+    execute: async ({ city, country, days, hours }, { signal }) => {
+      return await getWeatherForecast(city, country, { days, hours }, { signal })
     },
-    execute: async (args: { city: string; country?: string }) => {
-      return await getWeatherData(args.city, args.country)
+    cache: {
+      ttlSeconds: () => 30 * 60,
+      scope: () => getWeatherBackend().id,
     },
-  },
-  getF1Matches: {
+  }),
+  getAirQualityAndAlerts: defineTool({
+    name: "getAirQualityAndAlerts",
+    description:
+      "Get the air quality index and pollutant levels for a location, plus active and upcoming severe weather alerts with their severity and validity window.",
+    parameters: z.object({
+      city: z
+        .string()
+        .trim()
+        .min(1)
+        .describe('Place name, optionally narrowed down with its region and country, e.g. "Paris, Texas, US"'),
+      country: z.string().optional().describe("Country code (optional)"),
+    }),
+    execute: async ({ city, country }, { signal }) => {
+      return await getAirQualityAndAlerts(city, country, { signal })
+    },
+    cache: {
+      // Short, so a newly issued warning shows up quickly
+      ttlSeconds: () => 10 * 60,
+      scope: () => getWeatherBackend().id,
+    },
+  }),
+  getF1Matches: defineTool({
     name: "getF1Matches",
     description: "Get Formula 1 race information and results",
-    parameters: {
-      type: { 
-        type: "string", 
-        description: "Type of F1 data: latest-race, standings, or schedule",
-        enum: ["latest-race", "standings", "schedule"]
-      },
-      season: { type: "string", description: "Season year (optional)" },
+    parameters: z.object({
+      type: z.enum(F1_DATA_TYPES).describe("Type of F1 data: next-race, latest-race, standings, or schedule"),
+      season: z
+        .string()
+        .regex(/^\d{4}$/, "Season must be a four-digit year")
+        .optional()
+        .describe("Season year (optional, defaults to the current season)"),
+    }),
+    execute: async ({ type, season }, { signal }) => {
+      return await getF1Data(type, season, { signal })
     },
-    execute: async (args: { type: string; season?: string }) => {
-      return await getF1Data(args.type as any, args.season)
+    cache: {
+      // Standings and results only change on race weekends
+      ttlSeconds: ({ type }) =>
+        ({ schedule: 24 * 3600, standings: 6 * 3600, "latest-race": 3600, "next-race": 3600 })[type],
+      scope: () => getF1Backend().id,
     },
-  },
-  getStockPrice: {
+  }),
+  getStockPrice: defineTool({
     name: "getStockPrice",
-    description: "Get stock market information for a specific symbol",
-    parameters: {
-      symbol: { type: "string", description: "Stock symbol (e.g., AAPL, GOOGL)" },
-      interval: { type: "string", description: "Data interval (daily, 1min, 5min, etc.)" },
+    description:
+      "Get the latest stock quote for a specific symbol, optionally with its price history (OHLCV bars) over a range",
+    parameters: z.object({
+      symbol: z.string().trim().min(1).describe("Stock symbol (e.g., AAPL, GOOGL)"),
+      range: z
+        .enum(STOCK_RANGES)
+        .optional()
+        .describe("Include price history over this range (1D, 5D, 1M, 6M or 1Y); use when asked how the stock has moved"),
+    }),
+    execute: async ({ symbol, range }, { signal }) => {
+      const [quote, history] = await Promise.all([
+        getStockData(symbol, { signal }),
+        range ? getStockSeries(symbol, range, { signal }) : undefined,
+      ])
+      return history ? { ...quote, history } : quote
+    },
+    cache: {
+      // Alpha Vantage's free tier allows only a handful of calls a minute
+      ttlSeconds: () => 5 * 60,
+      scope: () => getStockBackend().id,
+    },
+  }),
+  compareStocks: defineTool({
+    name: "compareStocks",
+    description:
+      "Compare how several stocks performed over the same range. Returns each symbol's percent change since the start of the range, price, high, low and volume. Use instead of several getStockPrice calls when the user wants stocks side by side.",
+    parameters: z.object({
+      symbols: z
+        .array(z.string().trim().min(1).toUpperCase())
+        .min(2)
+        .max(MAX_COMPARED_STOCKS)
+        .describe(`Stock symbols to compare, 2 to ${MAX_COMPARED_STOCKS} (e.g., ["AAPL", "MSFT"])`),
+      range: z.enum(STOCK_RANGES).default("1M").describe("Range to compare over: 1D, 5D, 1M, 6M or 1Y"),
+    }),
+    execute: async ({ symbols, range }, { signal }) => {
+      return await compareStocks(symbols, range, { signal })
     },
-    execute: async (args: { symbol: string; interval?: string }) => {
-      return await getStockData(args.symbol, args.interval || "daily")
+    cache: {
+      ttlSeconds: ({ range }) => (range === "1D" ? 5 * 60 : 30 * 60),
+      scope: () => getStockBackend().id,
     },
-  },
+  }),
+  remember: defineTool({
+    name: "remember",
+    description:
+      "Save a lasting fact about the user so it is known in future chats, e.g. their favourite F1 team, the stocks they follow or their home city. Only save what the user said about themselves, not one-off requests.",
+    parameters: z.object({
+      fact: z
+        .string()
+        .trim()
+        .min(1)
+        .max(MAX_MEMORY_LENGTH)
+        .describe('The fact as a short sentence about the user, e.g. "Supports Ferrari in F1"'),
+    }),
+    execute: async ({ fact }, context) => {
+      if (!context.userId) {
+        throw new Error("Memory is only available to signed-in users")
+      }
+
+      const saved = await saveMemory(context.userId, fact, { source: "assistant", chatId: context.chatId })
+      if (saved.status === "full") {
+        throw new Error(`The user already has ${MAX_MEMORIES} memories; they can delete old ones in settings`)
+      }
+      return { fact: saved.memory.content, alreadyKnown: saved.status === "duplicate" }
+    },
+  }),
 }
 
-export async function executeTool(toolName: string, args: any): Promise<any> {
+/**
+ * Validate the model's arguments and run the tool. Unknown tools, invalid
+ * arguments and tool failures all come back as an error the model can read
+ * and correct; only an abort rejects.
+ */
+export async function executeTool(toolName: string, args: unknown, context: ToolContext = {}): Promise<ToolOutcome> {
   const tool = tools[toolName]
   if (!tool) {
-    throw new Error(`Unknown tool: ${toolName}`)
+    return { success: false, error: `Unknown tool "${toolName}". Available tools: ${Object.keys(tools).join(", ")}` }
+  }
+
+  const parsed = tool.parameters.safeParse(args ?? {})
+  if (!parsed.success) {
+    return { success: false, error: formatValidationError(toolName, parsed.error) }
+  }
+
+  const cache = tool.cache && getToolCache()
+  const ttlSeconds = tool.cache?.ttlSeconds(parsed.data) ?? 0
+  const key = cache && toolCacheKey(toolName, tool.cache?.scope?.(), parsed.data)
+
+  if (cache && key) {
+    const entry = await cache.get(key).catch((error) => {
+      console.error("Tool cache read failed:", error)
+      return null
+    })
+    if (entry) {
+      const ageSeconds = Math.floor((Date.now() - entry.storedAt) / 1000)
+      return { success: true, data: entry.value, metadata: { cache: { hit: true, ageSeconds, ttlSeconds } } }
+    }
   }
 
   try {
-    const result = await tool.execute(args)
+    const result = await abortable(tool.execute(parsed.data, context), context.signal)
+
+    if (cache && key) {
+      const storedAt = Date.now()
+      await cache.set(key, { value: result, storedAt, expiresAt: storedAt + ttlSeconds * 1000 }).catch((error) => {
+        console.error("Tool cache write failed:", error)
+      })
+      return { success: true, data: result, metadata: { cache: { hit: false, ageSeconds: 0, ttlSeconds } } }
+    }
+
     return {
       success: true,
       data: result,
     }
   } catch (error) {
+    if (context.signal?.aborted) throw error
     console.error(`Tool execution error for ${toolName}:`, error)
     return {
       success: false,
@@ -70,10 +304,41 @@ export async function executeTool(toolName: string, args: any): Promise<any> {
   }
 }
 
+// One line per problem, naming the argument, e.g.
+// `Invalid arguments for getWeather: city: Invalid input: expected string, received undefined`
+function formatValidationError(toolName: string, error: z.ZodError): string {
+  const problems = error.issues.map((issue) =>
+    issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+  )
+  return `Invalid arguments for ${toolName}: ${problems.join("; ")}`
+}
+
+/**
+ * Reject as soon as the signal aborts, even if the tool itself ignores it.
+ */
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise
+  signal.throwIfAborted()
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason)
+    signal.addEventListener("abort", onAbort, { once: true })
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort))
+  })
+}
+
+/**
+ * JSON Schema declarations for every registered tool, in the shape providers
+ * expect for native function calling. Schemas describe the input side, so
+ * arguments with defaults are optional.
+ */
 export function getToolSchema() {
-  return Object.values(tools).map(tool => ({
-    name: tool.name,
-    description: tool.description,
-    parameters: tool.parameters,
-  }))
+  return Object.values(tools).map((tool) => {
+    const { $schema, ...parameters } = z.toJSONSchema(tool.parameters, { io: "input" })
+    return {
+      name: tool.name,
+      description: tool.description,
+      parameters,
+    }
+  })
 }
@@ -0,0 +1,63 @@
+export interface ToolCall {
+  id: string
+  toolName: string
+  args: Record<string, any>
+}
+
+export interface TokenUsage {
+  promptTokens: number
+  completionTokens: number
+}
+
+export interface AIResponse {
+  content: string
+  toolCalls: ToolCall[]
+  /** Token counts reported by the provider, when it reports them */
+  usage?: TokenUsage
+}
+
+/**
+ * A turn in the conversation sent to the model. Assistant turns may request
+ * tools, and each tool turn carries the result of one of those calls back.
+ */
+export type ConversationMessage =
+  | { role: "user"; content: string }
+  | { role: "assistant"; content: string; toolCalls?: ToolCall[] }
+  | { role: "tool"; toolCallId: string; toolName: string; result: any }
+
+export type ProviderId = "gemini" | "openai" | "anthropic" | "local" | "scripted"
+
+export interface GenerateOptions {
+  /** Model to use instead of the provider's default */
+  model?: string
+  /** System prompt to send instead of the default one */
+  system?: string
+  /** Set to false to force a plain text answer */
+  allowTools?: boolean
+  /** Cancels the request when the client stops generation */
+  signal?: AbortSignal
+}
+
+/**
+ * Common surface every LLM vendor adapter implements, so the agent loop and
+ * the chat route never depend on a specific SDK.
+ */
+export interface LLMProvider {
+  readonly id: ProviderId
+  readonly label: string
+  readonly defaultModel: string
+  readonly models: string[]
+  isConfigured(): boolean
+  /**
+   * Stream a model turn. Text deltas are yielded as they arrive; the complete
+   * response, including any tool calls and usage, is the generator's return
+   * value. A failed request throws instead of returning partial text.
+   */
+  streamResponse(messages: ConversationMessage[], options?: GenerateOptions): AsyncGenerator<string, AIResponse>
+  /**
+   * Prompt tokens the messages would take, including the system prompt and
+   * tool declarations. Uses the vendor's tokenizer where one is available and
+   * falls back to an estimate otherwise.
+   */
+  countTokens(messages: ConversationMessage[], options?: Pick<GenerateOptions, "model" | "system">): Promise<number>
+}
@@ -0,0 +1,60 @@
+import { calculateCost } from "./pricing"
+import { estimatePromptTokens, estimateTextTokens } from "./tokens"
+import type { AIResponse, LLMProvider, ProviderId, TokenUsage } from "./types"
+
+export type UsagePurpose = "answer" | "tool-round" | "summary" | "title"
+
+/** What one model call used, ready to be stored against a message */
+export interface UsageRecord extends TokenUsage {
+  provider: ProviderId
+  model: string
+  purpose: UsagePurpose
+  estimated: boolean
+  costUsd: number | null
+}
+
+/**
+ * Wrap a provider so every call made through it is reported to `onUsage`.
+ * Calls are labelled with `purpose` when given; otherwise a call that asked
+ * for tools counts as a tool round and any other call as the answer.
+ */
+export function withUsageTracking(
+  provider: LLMProvider,
+  onUsage: (record: UsageRecord) => void,
+  purpose?: UsagePurpose
+): LLMProvider {
+  return {
+    id: provider.id,
+    label: provider.label,
+    defaultModel: provider.defaultModel,
+    models: provider.models,
+    isConfigured: () => provider.isConfigured(),
+    countTokens: (messages, options) => provider.countTokens(messages, options),
+
+    async *streamResponse(messages, options = {}) {
+      const response: AIResponse = yield* provider.streamResponse(messages, options)
+      const model = options.model || provider.defaultModel
+
+      // Providers that report nothing (the scripted one, some local servers)
+      // are counted with the same estimate used for the context budget
+      const usage = response.usage ?? {
+        promptTokens: estimatePromptTokens(messages, options.system),
+        completionTokens: estimateTextTokens(
+          response.content + (response.toolCalls.length > 0 ? JSON.stringify(response.toolCalls) : "")
+        ),
+      }
+
+      onUsage({
+        provider: provider.id,
+        model,
+        purpose: purpose ?? (response.toolCalls.length > 0 ? "tool-round" : "answer"),
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+        estimated: !response.usage,
+        costUsd: calculateCost(provider.id, model, usage),
+      })
+
+      return response
+    },
+  }
+}
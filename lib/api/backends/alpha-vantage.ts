@@ -0,0 +1,123 @@
+import { DataProviderError, fetchJson } from "../http"
+import type { RequestOptions, StockBackend, StockBar, StockQuote, StockRange, StockSeries } from "../types"
+
+const BASE_URL = "https://www.alphavantage.co/query"
+
+// The free endpoint behind each range, and how much of its answer to keep.
+// Compact daily output only reaches back 100 trading days, so longer ranges
+// use weekly bars.
+const SERIES_REQUESTS: Record<
+  StockRange,
+  { params: Record<string, string>; key: string; interval: StockSeries["interval"]; tradingDays?: number; months?: number }
+> = {
+  "1D": { params: { function: "TIME_SERIES_INTRADAY", interval: "5min", extended_hours: "false" }, key: "Time Series (5min)", interval: "5min", tradingDays: 1 },
+  "5D": { params: { function: "TIME_SERIES_INTRADAY", interval: "60min", extended_hours: "false" }, key: "Time Series (60min)", interval: "60min", tradingDays: 5 },
+  "1M": { params: { function: "TIME_SERIES_DAILY" }, key: "Time Series (Daily)", interval: "daily", months: 1 },
+  "6M": { params: { function: "TIME_SERIES_WEEKLY" }, key: "Weekly Time Series", interval: "weekly", months: 6 },
+  "1Y": { params: { function: "TIME_SERIES_WEEKLY" }, key: "Weekly Time Series", interval: "weekly", months: 12 },
+}
+
+/**
+ * Delayed quotes and price history from Alpha Vantage.
+ */
+export class AlphaVantageBackend implements StockBackend {
+  readonly id = "alpha-vantage"
+  readonly label = "Alpha Vantage"
+
+  private get apiKey() {
+    return process.env.ALPHA_VANTAGE_API_KEY
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey
+  }
+
+  async getQuote(symbol: string, options?: RequestOptions): Promise<StockQuote> {
+    const data = await this.query({ function: "GLOBAL_QUOTE", symbol }, options)
+    const quote = data["Global Quote"]
+
+    if (!quote || Object.keys(quote).length === 0) {
+      throw new DataProviderError(`No quote found for symbol "${symbol}". Use the exchange ticker, e.g. AAPL.`, 404)
+    }
+
+    return {
+      source: this.id,
+      symbol: quote["01. symbol"],
+      price: parseFloat(quote["05. price"]),
+      change: parseFloat(quote["09. change"]),
+      changePercent: parseFloat(quote["10. change percent"]),
+      open: parseFloat(quote["02. open"]),
+      high: parseFloat(quote["03. high"]),
+      low: parseFloat(quote["04. low"]),
+      previousClose: parseFloat(quote["08. previous close"]),
+      volume: parseInt(quote["06. volume"], 10),
+      latestTradingDay: quote["07. latest trading day"],
+    }
+  }
+
+  async getSeries(symbol: string, range: StockRange, options?: RequestOptions): Promise<StockSeries> {
+    const request = SERIES_REQUESTS[range]
+    const data = await this.query({ ...request.params, symbol }, options)
+    const series = data[request.key]
+
+    if (!series || Object.keys(series).length === 0) {
+      throw new DataProviderError(`No price history found for symbol "${symbol}". Use the exchange ticker, e.g. AAPL.`, 404)
+    }
+
+    // Keys are timestamps, newest first
+    const bars: StockBar[] = Object.entries<any>(series)
+      .map(([time, bar]) => ({
+        time: time.slice(0, 16),
+        open: parseFloat(bar["1. open"]),
+        high: parseFloat(bar["2. high"]),
+        low: parseFloat(bar["3. low"]),
+        close: parseFloat(bar["4. close"]),
+        volume: parseInt(bar["5. volume"], 10),
+      }))
+      .sort((a, b) => a.time.localeCompare(b.time))
+
+    return {
+      source: this.id,
+      symbol: data["Meta Data"]?.["2. Symbol"] ?? symbol,
+      range,
+      interval: request.interval,
+      timeZone: toIanaZone(data["Meta Data"]?.["6. Time Zone"] ?? data["Meta Data"]?.["5. Time Zone"]),
+      bars: trimBars(bars, request),
+    }
+  }
+
+  // Alpha Vantage answers errors and rate limits with HTTP 200 and a message
+  private async query(params: Record<string, string>, options?: RequestOptions): Promise<any> {
+    const search = new URLSearchParams({ ...params, apikey: this.apiKey ?? "" })
+    const data = await fetchJson(`${BASE_URL}?${search}`, this.label, options)
+
+    if (data["Error Message"]) {
+      throw new DataProviderError(`${this.label} rejected the request: ${data["Error Message"]}`, 400)
+    }
+    if (data.Note || data.Information) {
+      throw new DataProviderError(`${this.label} rate limit reached; try again in a minute`, 429)
+    }
+    return data
+  }
+}
+
+// Keep the last few trading days, or the months before the newest bar
+function trimBars(bars: StockBar[], { tradingDays, months }: { tradingDays?: number; months?: number }): StockBar[] {
+  if (tradingDays) {
+    const days = Array.from(new Set(bars.map((bar) => bar.time.slice(0, 10))))
+    const first = days[Math.max(0, days.length - tradingDays)]
+    return bars.filter((bar) => bar.time >= first)
+  }
+
+  const latest = new Date(`${bars[bars.length - 1].time.slice(0, 10)}T00:00:00Z`)
+  latest.setUTCMonth(latest.getUTCMonth() - (months ?? 1))
+  const cutoff = latest.toISOString().slice(0, 10)
+  return bars.filter((bar) => bar.time > cutoff)
+}
+
+// Meta data names zones the way the US markets do, e.g. "US/Eastern"
+function toIanaZone(zone: string | undefined): string {
+  return !zone || zone === "US/Eastern" ? "America/New_York" : zone
+}
+
+export const alphaVantageBackend = new AlphaVantageBackend()
@@ -0,0 +1,110 @@
+import { DataProviderError, fetchJson } from "../http"
+import type { F1Backend, F1LatestRace, F1NextRace, F1Schedule, F1Standings, RequestOptions } from "../types"
+
+/**
+ * Formula 1 data from an Ergast-compatible API. The original Ergast service
+ * has shut down; Jolpica serves the same API and is the default.
+ */
+export class ErgastBackend implements F1Backend {
+  readonly id = "ergast"
+  readonly label = "Jolpica F1"
+
+  constructor(private baseUrl: string = process.env.F1_API_BASE_URL || "https://api.jolpi.ca/ergast/f1") {}
+
+  // Public API, no key needed
+  isConfigured(): boolean {
+    return true
+  }
+
+  async getNextRace(options?: RequestOptions): Promise<F1NextRace> {
+    const data = await this.get("current/next.json", options)
+    const race = data.MRData.RaceTable.Races[0]
+    if (!race) {
+      throw new DataProviderError("No upcoming race found; the season may be over", 404)
+    }
+
+    return {
+      source: this.id,
+      type: "next-race",
+      season: race.season,
+      round: race.round,
+      raceName: race.raceName,
+      circuit: race.Circuit.circuitName,
+      location: `${race.Circuit.Location.locality}, ${race.Circuit.Location.country}`,
+      date: race.date,
+      time: race.time,
+    }
+  }
+
+  async getLatestRace(season = "current", options?: RequestOptions): Promise<F1LatestRace> {
+    const data = await this.get(`${season}/last/results.json`, options)
+    const race = data.MRData.RaceTable.Races[0]
+    if (!race) {
+      throw new DataProviderError(`No race results found for the ${season} season`, 404)
+    }
+
+    return {
+      source: this.id,
+      type: "latest-race",
+      season: race.season,
+      round: race.round,
+      raceName: race.raceName,
+      circuit: race.Circuit.circuitName,
+      date: race.date,
+      results: race.Results.map((result: any) => ({
+        position: result.position,
+        driver: `${result.Driver.givenName} ${result.Driver.familyName}`,
+        constructor: result.Constructor.name,
+        time: result.Time?.time ?? result.status,
+        points: result.points,
+      })),
+    }
+  }
+
+  async getStandings(season = "current", options?: RequestOptions): Promise<F1Standings> {
+    const data = await this.get(`${season}/driverStandings.json`, options)
+    const list = data.MRData.StandingsTable.StandingsLists[0]
+    if (!list) {
+      throw new DataProviderError(`No driver standings found for the ${season} season`, 404)
+    }
+
+    return {
+      source: this.id,
+      type: "standings",
+      season: list.season,
+      round: list.round,
+      drivers: list.DriverStandings.map((standing: any) => ({
+        position: standing.position,
+        driver: `${standing.Driver.givenName} ${standing.Driver.familyName}`,
+        constructor: standing.Constructors[0]?.name ?? "",
+        points: standing.points,
+        wins: standing.wins,
+      })),
+    }
+  }
+
+  async getSchedule(season = "current", options?: RequestOptions): Promise<F1Schedule> {
+    const data = await this.get(`${season}.json`, options)
+    const table = data.MRData.RaceTable
+
+    return {
+      source: this.id,
+      type: "schedule",
+      season: table.season,
+      races: table.Races.map((race: any) => ({
+        round: race.round,
+        raceName: race.raceName,
+        circuit: race.Circuit.circuitName,
+        location: `${race.Circuit.Location.locality}, ${race.Circuit.Location.country}`,
+        date: race.date,
+        time: race.time,
+      })),
+    }
+  }
+
+  private get(path: string, options?: RequestOptions): Promise<any> {
+    return fetchJson(`${this.baseUrl}/${path}`, this.label, options)
+  }
+}
+
+export const ergastBackend = new ErgastBackend()
@@ -0,0 +1,440 @@
+import { AQI_LEVELS } from "../types"
+import type {
+  AirQuality,
+  CurrentWeather,
+  F1Backend,
+  F1LatestRace,
+  F1NextRace,
+  F1Schedule,
+  F1Standings,
+  ForecastHour,
+  GeoLocation,
+  StockBackend,
+  StockBar,
+  StockQuote,
+  StockRange,
+  StockSeries,
+  WeatherAlert,
+  WeatherBackend,
+  WeatherForecast,
+} from "../types"
+
+/**
+ * Offline backends with fixed sample data, for development, demos and
+ * environments without API keys. Values are derived from the request, so the
+ * same question always gets the same answer.
+ */
+
+const SOURCE = "fixtures"
+const LABEL = "Sample data"
+
+// Stable pseudo-random number in [0, 1) for a string
+function seeded(value: string): number {
+  let hash = 2166136261
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 16777619)
+  }
+  return (hash >>> 0) / 2 ** 32
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits
+  return Math.round(value * factor) / factor
+}
+
+// Fixtures are pinned to this day so results don't drift between runs
+export const FIXTURE_DATE = "2024-06-14"
+
+const CONDITIONS = [
+  { condition: "Clear", description: "clear sky" },
+  { condition: "Clouds", description: "scattered clouds" },
+  { condition: "Clouds", description: "overcast clouds" },
+  { condition: "Rain", description: "light rain" },
+  { condition: "Drizzle", description: "light intensity drizzle" },
+  { condition: "Thunderstorm", description: "thunderstorm with light rain" },
+]
+
+function titleCase(value: string): string {
+  return value.trim().toLowerCase().replace(/\b\w/g, (letter) => letter.toUpperCase())
+}
+
+// Names shared by several places, to exercise disambiguation, and some
+// well-known cities so queries like "Berlin, DE" resolve. Any other name
+// resolves to a single made-up place.
+const FIXTURE_PLACES: GeoLocation[] = [
+  { name: "Paris", state: "Ile-de-France", country: "FR", latitude: 48.8589, longitude: 2.32 },
+  { name: "Paris", state: "Texas", country: "US", latitude: 33.6609, longitude: -95.5555 },
+  { name: "Paris", state: "Tennessee", country: "US", latitude: 36.302, longitude: -88.3267 },
+  { name: "London", state: "England", country: "GB", latitude: 51.5073, longitude: -0.1277 },
+  { name: "London", state: "Ontario", country: "CA", latitude: 42.9832, longitude: -81.2433 },
+  { name: "Springfield", state: "Illinois", country: "US", latitude: 39.799, longitude: -89.644 },
+  { name: "Springfield", state: "Missouri", country: "US", latitude: 37.2153, longitude: -93.2982 },
+  { name: "Springfield", state: "Massachusetts", country: "US", latitude: 42.1015, longitude: -72.5898 },
+  { name: "Portland", state: "Oregon", country: "US", latitude: 45.5202, longitude: -122.6742 },
+  { name: "Portland", state: "Maine", country: "US", latitude: 43.6615, longitude: -70.2553 },
+  { name: "Berlin", state: "Berlin", country: "DE", latitude: 52.517, longitude: 13.3889 },
+  { name: "Tokyo", state: "Tokyo", country: "JP", latitude: 35.6828, longitude: 139.759 },
+  { name: "New York", state: "New York", country: "US", latitude: 40.7127, longitude: -74.006 },
+  { name: "Madrid", state: "Community of Madrid", country: "ES", latitude: 40.4167, longitude: -3.7036 },
+  { name: "Rome", state: "Lazio", country: "IT", latitude: 41.8933, longitude: 12.4829 },
+  { name: "Amsterdam", state: "North Holland", country: "NL", latitude: 52.3727, longitude: 4.8936 },
+  { name: "Dublin", state: "Leinster", country: "IE", latitude: 53.3498, longitude: -6.2603 },
+  { name: "Toronto", state: "Ontario", country: "CA", latitude: 43.6535, longitude: -79.3839 },
+  { name: "Sydney", state: "New South Wales", country: "AU", latitude: -33.8688, longitude: 151.2093 },
+  { name: "Mumbai", state: "Maharashtra", country: "IN", latitude: 19.0815, longitude: 72.8866 },
+  { name: "Mexico City", country: "MX", latitude: 19.4326, longitude: -99.1332 },
+  { name: "Singapore", country: "SG", latitude: 1.2899, longitude: 103.8519 },
+]
+
+// Made-up places still get a real country code, so qualifiers and the
+// card's country name work for them
+const FIXTURE_COUNTRIES = ["US", "GB", "DE", "FR", "ES", "IT", "NL", "JP", "AU", "CA", "BR", "IN"]
+
+export const fixtureWeatherBackend: WeatherBackend = {
+  id: SOURCE,
+  label: LABEL,
+  isConfigured: () => true,
+
+  async geocode(name, country): Promise<GeoLocation[]> {
+    const key = name.trim().toLowerCase()
+    const places = FIXTURE_PLACES.filter(
+      (place) => place.name.toLowerCase() === key && (!country || place.country === country.toUpperCase())
+    )
+    if (places.length > 0) return places
+
+    const seed = seeded(key)
+    return [
+      {
+        name: titleCase(name),
+        country: country?.toUpperCase() ?? FIXTURE_COUNTRIES[Math.floor(seed * 1000) % FIXTURE_COUNTRIES.length],
+        latitude: round(-60 + seed * 120, 4),
+        longitude: round(-180 + ((seed * 1000) % 1) * 360, 4),
+      },
+    ]
+  },
+
+  async getCurrentWeather(location): Promise<CurrentWeather> {
+    const seed = seeded(location.name.toLowerCase())
+    const temperature = Math.round(-5 + seed * 37)
+    const { condition, description } = CONDITIONS[Math.floor(seed * 1000) % CONDITIONS.length]
+
+    return {
+      source: SOURCE,
+      city: location.name,
+      country: location.country,
+      location,
+      temperature,
+      feelsLike: temperature - Math.round(seed * 4),
+      condition,
+      description,
+      humidity: 35 + Math.floor(seed * 6000) % 60,
+      windSpeed: 3 + Math.floor(seed * 9000) % 35,
+      observedAt: `${FIXTURE_DATE}T12:00:00.000Z`,
+    }
+  },
+
+  // Five days of 3-hour steps from midnight UTC on the fixture date, each
+  // day with one condition and a temperature that peaks mid-afternoon
+  async getForecast(location): Promise<WeatherForecast> {
+    const name = location.name.toLowerCase()
+    const base = -5 + seeded(name) * 37
+    const start = Date.parse(`${FIXTURE_DATE}T00:00:00.000Z`)
+    const days: WeatherForecast["days"] = []
+    const hours: ForecastHour[] = []
+
+    for (let day = 0; day < 5; day++) {
+      const date = new Date(start + day * 86_400_000).toISOString().slice(0, 10)
+      const seed = seeded(`${date}:${name}`)
+      const { condition, description } = CONDITIONS[Math.floor(seed * 1000) % CONDITIONS.length]
+      const wet = !["Clear", "Clouds"].includes(condition)
+      const steps: ForecastHour[] = []
+
+      for (let step = 0; step < 8; step++) {
+        const hour = step * 3
+        const rainChance = wet ? 40 + Math.floor(seeded(`${hour}:${date}:${name}`) * 60) : condition === "Clouds" ? 10 : 0
+        steps.push({
+          time: new Date(start + day * 86_400_000 + hour * 3_600_000).toISOString(),
+          temperature: Math.round(base + (seed - 0.5) * 6 - 4 * Math.cos(((hour - 3) * Math.PI) / 12)),
+          condition,
+          precipitationProbability: rainChance,
+          precipitation: wet ? round((rainChance / 100) * 2, 1) : 0,
+        })
+      }
+
+      hours.push(...steps)
+      days.push({
+        date,
+        minTemperature: Math.min(...steps.map((step) => step.temperature)),
+        maxTemperature: Math.max(...steps.map((step) => step.temperature)),
+        condition,
+        description,
+        precipitationProbability: Math.max(...steps.map((step) => step.precipitationProbability)),
+        precipitation: round(steps.reduce((total, step) => total + step.precipitation, 0), 1),
+      })
+    }
+
+    return { source: SOURCE, city: location.name, country: location.country, location, utcOffset: 0, days, hours }
+  },
+
+  async getAirQuality(location): Promise<AirQuality> {
+    const seed = seeded(`aqi:${location.name.toLowerCase()}`)
+    const aqi = 1 + Math.floor(seed * AQI_LEVELS.length)
+
+    return {
+      aqi,
+      level: AQI_LEVELS[aqi - 1],
+      pollutants: {
+        pm2_5: round(aqi * 8 * (0.6 + seed)),
+        pm10: round(aqi * 14 * (0.6 + seed)),
+        o3: round(40 + aqi * 25 * seed),
+        no2: round(aqi * 9 * (0.5 + seed)),
+        so2: round(aqi * 2 * seed),
+        co: round(200 + aqi * 120 * seed),
+      },
+      observedAt: `${FIXTURE_DATE}T12:00:00.000Z`,
+    }
+  },
+
+  // Alerts follow the fixture's current conditions, so a stormy city is
+  // also under a storm warning
+  async getAlerts(location): Promise<WeatherAlert[]> {
+    const { condition, temperature } = await fixtureWeatherBackend.getCurrentWeather(location)
+    const sender = "Sample Weather Service"
+    const alerts: WeatherAlert[] = []
+
+    if (condition === "Thunderstorm") {
+      alerts.push({
+        event: "Severe Thunderstorm Warning",
+        sender,
+        severity: "severe",
+        start: `${FIXTURE_DATE}T10:00:00.000Z`,
+        end: `${FIXTURE_DATE}T18:00:00.000Z`,
+        description: "Thunderstorms with gusts up to 90 km/h and hail are expected. Secure loose objects and avoid travel.",
+      })
+    }
+    if (condition === "Rain") {
+      alerts.push({
+        event: "Flood Watch",
+        sender,
+        severity: "moderate",
+        start: `${FIXTURE_DATE}T18:00:00.000Z`,
+        end: `${FIXTURE_DATE}T23:59:00.000Z`,
+        description: "Persistent rain may cause flooding of low-lying roads this evening.",
+      })
+    }
+    if (temperature >= 28) {
+      alerts.push({
+        event: "Heat Advisory",
+        sender,
+        severity: "minor",
+        start: `${FIXTURE_DATE}T11:00:00.000Z`,
+        end: `${FIXTURE_DATE}T19:00:00.000Z`,
+        description: "High temperatures expected in the afternoon. Drink plenty of water and limit time outdoors.",
+      })
+    }
+
+    return alerts
+  },
+}
+
+// Closing prices on the fixture date; other symbols get a made-up price
+export const FIXTURE_PRICES: Record<string, number> = {
+  AAPL: 212.49,
+  MSFT: 442.57,
+  GOOGL: 178.37,
+  AMZN: 183.66,
+  NVDA: 131.88,
+  TSLA: 178.01,
+  META: 504.16,
+}
+
+const DAY_MS = 86_400_000
+
+// Weekdays up to and including `end`, oldest first
+function tradingDays(end: string, count: number): string[] {
+  const days: string[] = []
+  for (let time = Date.parse(`${end}T00:00:00Z`); days.length < count; time -= DAY_MS) {
+    const weekday = new Date(time).getUTCDay()
+    if (weekday !== 0 && weekday !== 6) days.unshift(new Date(time).toISOString().slice(0, 10))
+  }
+  return days
+}
+
+// Bar start times for a range, in New York time, ending on the fixture date
+function fixtureBarTimes(range: StockRange): string[] {
+  const minutesOfDay = (step: number, count: number) =>
+    Array.from({ length: count }, (_, index) => {
+      const minutes = 9 * 60 + 30 + index * step
+      return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`
+    })
+  // Weekly bars are dated by the Friday that closes the week
+  const fridays = (count: number) =>
+    Array.from({ length: count }, (_, index) =>
+      new Date(Date.parse(`${FIXTURE_DATE}T00:00:00Z`) - (count - 1 - index) * 7 * DAY_MS).toISOString().slice(0, 10)
+    )
+
+  switch (range) {
+    case "1D":
+      return minutesOfDay(5, 78).map((time) => `${FIXTURE_DATE} ${time}`)
+    case "5D":
+      return tradingDays(FIXTURE_DATE, 5).flatMap((day) => minutesOfDay(60, 7).map((time) => `${day} ${time}`))
+    case "1M":
+      return tradingDays(FIXTURE_DATE, 22)
+    case "6M":
+      return fridays(26)
+    case "1Y":
+      return fridays(52)
+  }
+}
+
+const FIXTURE_INTERVALS: Record<StockRange, StockSeries["interval"]> = {
+  "1D": "5min",
+  "5D": "60min",
+  "1M": "daily",
+  "6M": "weekly",
+  "1Y": "weekly",
+}
+
+// Typical size of one bar's move, and its share of a day's volume
+const FIXTURE_BAR_SHAPES: Record<StockSeries["interval"], { volatility: number; volumeShare: number }> = {
+  "5min": { volatility: 0.002, volumeShare: 1 / 78 },
+  "60min": { volatility: 0.006, volumeShare: 1 / 7 },
+  daily: { volatility: 0.015, volumeShare: 1 },
+  weekly: { volatility: 0.035, volumeShare: 5 },
+}
+
+export const fixtureStockBackend: StockBackend = {
+  id: SOURCE,
+  label: LABEL,
+  isConfigured: () => true,
+
+  async getQuote(symbol): Promise<StockQuote> {
+    const ticker = symbol.trim().toUpperCase()
+    const seed = seeded(ticker)
+    const price = FIXTURE_PRICES[ticker] ?? round(20 + seed * 480)
+    const changePercent = round((seed - 0.5) * 6)
+    const previousClose = round(price / (1 + changePercent / 100))
+
+    return {
+      source: SOURCE,
+      symbol: ticker,
+      price,
+      change: round(price - previousClose),
+      changePercent,
+      open: round(previousClose * (1 + (seed - 0.5) / 100)),
+      high: round(Math.max(price, previousClose) * (1 + seed / 100)),
+      low: round(Math.min(price, previousClose) * (1 - seed / 100)),
+      previousClose,
+      volume: Math.floor(5_000_000 + seed * 80_000_000),
+      latestTradingDay: FIXTURE_DATE,
+    }
+  },
+
+  // A random walk backwards from the fixture quote, so every range ends at
+  // the price getQuote reports
+  async getSeries(symbol, range): Promise<StockSeries> {
+    const quote = await fixtureStockBackend.getQuote(symbol)
+    const interval = FIXTURE_INTERVALS[range]
+    const { volatility, volumeShare } = FIXTURE_BAR_SHAPES[interval]
+    const times = fixtureBarTimes(range)
+    const bars: StockBar[] = []
+
+    let close = quote.price
+    for (let index = times.length - 1; index >= 0; index--) {
+      const seed = seeded(`${times[index]}:${range}:${quote.symbol}`)
+      const open = close / (1 + (seed - 0.5) * 2 * volatility)
+      bars.unshift({
+        time: times[index],
+        open: round(open),
+        high: round(Math.max(open, close) * (1 + (seed * volatility) / 2)),
+        low: round(Math.min(open, close) * (1 - ((1 - seed) * volatility) / 2)),
+        close: round(close),
+        volume: Math.floor(quote.volume * volumeShare * (0.5 + seed)),
+      })
+      close = open
+    }
+
+    return { source: SOURCE, symbol: quote.symbol, range, interval, timeZone: "America/New_York", bars }
+  },
+}
+
+const FIXTURE_SEASON = "2024"
+
+const FIXTURE_RACES: F1Schedule["races"] = [
+  { round: "1", raceName: "Bahrain Grand Prix", circuit: "Bahrain International Circuit", location: "Sakhir, Bahrain", date: "2024-03-02", time: "15:00:00Z" },
+  { round: "2", raceName: "Saudi Arabian Grand Prix", circuit: "Jeddah Corniche Circuit", location: "Jeddah, Saudi Arabia", date: "2024-03-09", time: "17:00:00Z" },
+  { round: "3", raceName: "Australian Grand Prix", circuit: "Albert Park Grand Prix Circuit", location: "Melbourne, Australia", date: "2024-03-24", time: "04:00:00Z" },
+  { round: "4", raceName: "Japanese Grand Prix", circuit: "Suzuka Circuit", location: "Suzuka, Japan", date: "2024-04-07", time: "05:00:00Z" },
+  { round: "5", raceName: "Chinese Grand Prix", circuit: "Shanghai International Circuit", location: "Shanghai, China", date: "2024-04-21", time: "07:00:00Z" },
+  { round: "6", raceName: "Miami Grand Prix", circuit: "Miami International Autodrome", location: "Miami, USA", date: "2024-05-05", time: "20:00:00Z" },
+  { round: "7", raceName: "Emilia Romagna Grand Prix", circuit: "Autodromo Enzo e Dino Ferrari", location: "Imola, Italy", date: "2024-05-19", time: "13:00:00Z" },
+  { round: "8", raceName: "Monaco Grand Prix", circuit: "Circuit de Monaco", location: "Monte-Carlo, Monaco", date: "2024-05-26", time: "13:00:00Z" },
+  { round: "9", raceName: "Canadian Grand Prix", circuit: "Circuit Gilles Villeneuve", location: "Montreal, Canada", date: "2024-06-09", time: "18:00:00Z" },
+  { round: "10", raceName: "Spanish Grand Prix", circuit: "Circuit de Barcelona-Catalunya", location: "Barcelona, Spain", date: "2024-06-23", time: "13:00:00Z" },
+  { round: "11", raceName: "Austrian Grand Prix", circuit: "Red Bull Ring", location: "Spielberg, Austria", date: "2024-06-30", time: "13:00:00Z" },
+  { round: "12", raceName: "British Grand Prix", circuit: "Silverstone Circuit", location: "Silverstone, UK", date: "2024-07-07", time: "14:00:00Z" },
+]
+
+const FIXTURE_LATEST_RACE: Omit<F1LatestRace, "source"> = {
+  type: "latest-race",
+  season: FIXTURE_SEASON,
+  round: "9",
+  raceName: "Canadian Grand Prix",
+  circuit: "Circuit Gilles Villeneuve",
+  date: "2024-06-09",
+  results: [
+    { position: "1", driver: "Max Verstappen", constructor: "Red Bull", time: "1:45:47.927", points: "25" },
+    { position: "2", driver: "Lando Norris", constructor: "McLaren", time: "+3.879", points: "18" },
+    { position: "3", driver: "George Russell", constructor: "Mercedes", time: "+4.317", points: "16" },
+    { position: "4", driver: "Lewis Hamilton", constructor: "Mercedes", time: "+4.915", points: "12" },
+    { position: "5", driver: "Oscar Piastri", constructor: "McLaren", time: "+10.199", points: "10" },
+    { position: "6", driver: "Fernando Alonso", constructor: "Aston Martin", time: "+17.510", points: "8" },
+    { position: "7", driver: "Lance Stroll", constructor: "Aston Martin", time: "+23.625", points: "6" },
+    { position: "8", driver: "Daniel Ricciardo", constructor: "RB F1 Team", time: "+28.619", points: "4" },
+    { position: "9", driver: "Pierre Gasly", constructor: "Alpine F1 Team", time: "+30.272", points: "2" },
+    { position: "10", driver: "Esteban Ocon", constructor: "Alpine F1 Team", time: "+31.088", points: "1" },
+  ],
+}
+
+const FIXTURE_STANDINGS: Omit<F1Standings, "source"> = {
+  type: "standings",
+  season: FIXTURE_SEASON,
+  round: "9",
+  drivers: [
+    { position: "1", driver: "Max Verstappen", constructor: "Red Bull", points: "194", wins: "6" },
+    { position: "2", driver: "Charles Leclerc", constructor: "Ferrari", points: "138", wins: "1" },
+    { position: "3", driver: "Lando Norris", constructor: "McLaren", points: "131", wins: "1" },
+    { position: "4", driver: "Carlos Sainz", constructor: "Ferrari", points: "108", wins: "1" },
+    { position: "5", driver: "Sergio Pérez", constructor: "Red Bull", points: "107", wins: "0" },
+    { position: "6", driver: "Oscar Piastri", constructor: "McLaren", points: "81", wins: "0" },
+    { position: "7", driver: "George Russell", constructor: "Mercedes", points: "69", wins: "0" },
+    { position: "8", driver: "Lewis Hamilton", constructor: "Mercedes", points: "55", wins: "0" },
+    { position: "9", driver: "Fernando Alonso", constructor: "Aston Martin", points: "41", wins: "0" },
+    { position: "10", driver: "Yuki Tsunoda", constructor: "RB F1 Team", points: "19", wins: "0" },
+  ],
+}
+
+export const fixtureF1Backend: F1Backend = {
+  id: SOURCE,
+  label: LABEL,
+  isConfigured: () => true,
+
+  async getNextRace(): Promise<F1NextRace> {
+    // The round after the fixture's latest race
+    const race = FIXTURE_RACES.find((entry) => Number(entry.round) === Number(FIXTURE_LATEST_RACE.round) + 1)!
+    return { source: SOURCE, type: "next-race", season: FIXTURE_SEASON, ...race }
+  },
+
+  async getLatestRace(): Promise<F1LatestRace> {
+    return { source: SOURCE, ...FIXTURE_LATEST_RACE }
+  },
+
+  async getStandings(): Promise<F1Standings> {
+    return { source: SOURCE, ...FIXTURE_STANDINGS }
+  },
+
+  async getSchedule(): Promise<F1Schedule> {
+    return { source: SOURCE, type: "schedule", season: FIXTURE_SEASON, races: FIXTURE_RACES }
+  },
+}
@@ -0,0 +1,188 @@
+import { DataProviderError, fetchJson } from "../http"
+import { AQI_LEVELS } from "../types"
+import type {
+  AirQuality,
+  AlertSeverity,
+  CurrentWeather,
+  ForecastDay,
+  ForecastHour,
+  GeoLocation,
+  RequestOptions,
+  WeatherAlert,
+  WeatherBackend,
+  WeatherForecast,
+} from "../types"
+
+const BASE_URL = "https://api.openweathermap.org/data/2.5"
+// Alerts are only published through One Call 3.0, a separate subscription
+const ONE_CALL_URL = "https://api.openweathermap.org/data/3.0/onecall"
+const GEOCODING_URL = "https://api.openweathermap.org/geo/1.0/direct"
+
+// Most candidates the geocoding API returns
+const GEOCODING_LIMIT = 5
+
+/**
+ * Geocoding, current conditions, the 5 day / 3 hour forecast, air pollution
+ * and alerts from OpenWeather, in metric units. Weather is looked up by
+ * coordinates.
+ */
+export class OpenWeatherBackend implements WeatherBackend {
+  readonly id = "openweather"
+  readonly label = "OpenWeather"
+
+  private get apiKey() {
+    return process.env.OPENWEATHER_API_KEY
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey
+  }
+
+  async geocode(name: string, country?: string, options?: RequestOptions): Promise<GeoLocation[]> {
+    const query = country ? `${name},${country}` : name
+    const url = `${GEOCODING_URL}?q=${encodeURIComponent(query)}&limit=${GEOCODING_LIMIT}&appid=${this.apiKey}`
+    const data = await fetchJson(url, this.label, options)
+
+    return (Array.isArray(data) ? data : []).map((place: any) => ({
+      name: place.local_names?.en ?? place.name,
+      state: place.state,
+      country: place.country ?? "",
+      latitude: place.lat,
+      longitude: place.lon,
+    }))
+  }
+
+  async getCurrentWeather(location: GeoLocation, options?: RequestOptions): Promise<CurrentWeather> {
+    const data = await this.request("weather", location, options)
+
+    return {
+      source: this.id,
+      city: location.name,
+      country: location.country,
+      location,
+      temperature: Math.round(data.main.temp),
+      feelsLike: Math.round(data.main.feels_like),
+      condition: data.weather[0]?.main ?? "Unknown",
+      description: data.weather[0]?.description ?? "",
+      humidity: data.main.humidity,
+      // Reported in m/s
+      windSpeed: Math.round(data.wind.speed * 3.6),
+      observedAt: new Date(data.dt * 1000).toISOString(),
+    }
+  }
+
+  async getForecast(location: GeoLocation, options?: RequestOptions): Promise<WeatherForecast> {
+    const data = await this.request("forecast", location, options)
+    const utcOffset: number = data.city?.timezone ?? 0
+
+    const hours: ForecastHour[] = (data.list ?? []).map((step: any) => ({
+      time: new Date(step.dt * 1000).toISOString(),
+      temperature: Math.round(step.main.temp),
+      condition: step.weather[0]?.main ?? "Unknown",
+      precipitationProbability: Math.round((step.pop ?? 0) * 100),
+      precipitation: (step.rain?.["3h"] ?? 0) + (step.snow?.["3h"] ?? 0),
+    }))
+    const descriptions: string[] = (data.list ?? []).map((step: any) => step.weather[0]?.description ?? "")
+
+    return {
+      source: this.id,
+      city: location.name,
+      country: location.country,
+      location,
+      utcOffset,
+      days: summarizeDays(hours, descriptions, utcOffset),
+      hours,
+    }
+  }
+
+  async getAirQuality(location: GeoLocation, options?: RequestOptions): Promise<AirQuality> {
+    const data = await this.request("air_pollution", location, options)
+    const reading = data.list?.[0]
+    if (!reading) {
+      throw new DataProviderError(`${this.label} has no air quality reading for ${location.name}`)
+    }
+
+    const aqi: number = reading.main.aqi
+    const components = reading.components ?? {}
+    return {
+      aqi,
+      level: AQI_LEVELS[aqi - 1] ?? "Moderate",
+      pollutants: {
+        pm2_5: components.pm2_5 ?? 0,
+        pm10: components.pm10 ?? 0,
+        o3: components.o3 ?? 0,
+        no2: components.no2 ?? 0,
+        so2: components.so2 ?? 0,
+        co: components.co ?? 0,
+      },
+      observedAt: new Date(reading.dt * 1000).toISOString(),
+    }
+  }
+
+  async getAlerts({ latitude, longitude }: GeoLocation, options?: RequestOptions): Promise<WeatherAlert[] | null> {
+    const url = `${ONE_CALL_URL}?lat=${latitude}&lon=${longitude}&exclude=current,minutely,hourly,daily&appid=${this.apiKey}`
+
+    let data: any
+    try {
+      data = await fetchJson(url, this.label, options)
+    } catch (error) {
+      // Keys without a One Call subscription are refused
+      if (error instanceof DataProviderError && error.status === 401) return null
+      throw error
+    }
+
+    return (data.alerts ?? []).map((alert: any) => ({
+      event: alert.event,
+      sender: alert.sender_name ?? "",
+      severity: alertSeverity(alert.event ?? ""),
+      start: new Date(alert.start * 1000).toISOString(),
+      end: new Date(alert.end * 1000).toISOString(),
+      description: alert.description ?? "",
+    }))
+  }
+
+  private request(path: string, { latitude, longitude }: GeoLocation, options?: RequestOptions): Promise<any> {
+    const url = `${BASE_URL}/${path}?lat=${latitude}&lon=${longitude}&appid=${this.apiKey}&units=metric`
+    return fetchJson(url, this.label, options)
+  }
+}
+
+// One Call alerts carry no severity, but national services name their
+// alerts by level: warnings call for action, watches and advisories don't
+function alertSeverity(event: string): AlertSeverity {
+  const name = event.toLowerCase()
+  if (/extreme|emergency|red warning/.test(name)) return "extreme"
+  if (/warning|orange/.test(name)) return "severe"
+  if (/watch|yellow/.test(name)) return "moderate"
+  return "minor"
+}
+
+// OpenWeather's free tier has no daily forecast, so days are built from the
+// 3-hour steps, grouped by local date
+function summarizeDays(hours: ForecastHour[], descriptions: string[], utcOffset: number): ForecastDay[] {
+  const groups = new Map<string, number[]>()
+  hours.forEach((hour, index) => {
+    const date = new Date(Date.parse(hour.time) + utcOffset * 1000).toISOString().slice(0, 10)
+    groups.set(date, [...(groups.get(date) ?? []), index])
+  })
+
+  return Array.from(groups.entries()).map(([date, indexes]) => {
+    const steps = indexes.map((index) => hours[index])
+    const counts = new Map<string, number>()
+    for (const step of steps) counts.set(step.condition, (counts.get(step.condition) ?? 0) + 1)
+    const condition = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0][0]
+    const descriptionIndex = indexes.find((index) => hours[index].condition === condition) ?? indexes[0]
+
+    return {
+      date,
+      minTemperature: Math.min(...steps.map((step) => step.temperature)),
+      maxTemperature: Math.max(...steps.map((step) => step.temperature)),
+      condition,
+      description: descriptions[descriptionIndex],
+      precipitationProbability: Math.max(...steps.map((step) => step.precipitationProbability)),
+      precipitation: Math.round(steps.reduce((total, step) => total + step.precipitation, 0) * 10) / 10,
+    }
+  })
+}
+
+export const openWeatherBackend = new OpenWeatherBackend()
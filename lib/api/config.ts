@@ -0,0 +1,28 @@
+import type { DataBackend } from "./types"
+
+export type DataDomain = "weather" | "stocks" | "f1"
+
+// Per-domain override, e.g. WEATHER_BACKEND=fixtures
+const BACKEND_ENV: Record<DataDomain, string> = {
+  weather: "WEATHER_BACKEND",
+  stocks: "STOCKS_BACKEND",
+  f1: "F1_BACKEND",
+}
+
+/**
+ * Pick the backend for a domain: the one named in its env override (or in
+ * DATA_BACKEND for every domain), otherwise the first configured live
+ * backend, otherwise the fixtures. DATA_BACKEND=fixtures runs fully offline.
+ */
+export function selectBackend<T extends DataBackend>(domain: DataDomain, backends: T[], fixtures: T): T {
+  const requested = process.env[BACKEND_ENV[domain]] || process.env.DATA_BACKEND
+  if (requested === fixtures.id) return fixtures
+
+  const named = backends.find((backend) => backend.id === requested)
+  if (named?.isConfigured()) return named
+  if (requested && !named) {
+    console.warn(`Unknown ${domain} backend "${requested}", using the default`)
+  }
+
+  return backends.find((backend) => backend.isConfigured()) ?? fixtures
+}
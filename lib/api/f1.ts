@@ -0,0 +1,27 @@
+import { ergastBackend } from "./backends/ergast"
+import { fixtureF1Backend } from "./backends/fixtures"
+import { selectBackend } from "./config"
+import type { F1Data, F1DataType, RequestOptions } from "./types"
+
+export function getF1Backend() {
+  return selectBackend("f1", [ergastBackend], fixtureF1Backend)
+}
+
+/**
+ * `season` is a year such as "2023"; the current season when omitted. The
+ * next race is always taken from the current season.
+ */
+export function getF1Data(type: F1DataType, season?: string, options?: RequestOptions): Promise<F1Data> {
+  const backend = getF1Backend()
+
+  switch (type) {
+    case "next-race":
+      return backend.getNextRace(options)
+    case "latest-race":
+      return backend.getLatestRace(season, options)
+    case "standings":
+      return backend.getStandings(season, options)
+    case "schedule":
+      return backend.getSchedule(season, options)
+  }
+}
@@ -0,0 +1,49 @@
+import type { RequestOptions } from "./types"
+
+const REQUEST_TIMEOUT_MS = Number(process.env.DATA_REQUEST_TIMEOUT_MS) || 10000
+
+/**
+ * A data backend failed or had nothing for the request. The message is
+ * written for the model, which reads it in the tool result.
+ */
+export class DataProviderError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number
+  ) {
+    super(message)
+    this.name = "DataProviderError"
+  }
+}
+
+/**
+ * GET a JSON document from an upstream API. Network failures, timeouts and
+ * error statuses become a DataProviderError; an abort from the caller is
+ * passed through untouched.
+ */
+export async function fetchJson(url: string, source: string, { signal }: RequestOptions = {}): Promise<any> {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS)
+  const onAbort = () => controller.abort(signal?.reason)
+  signal?.addEventListener("abort", onAbort, { once: true })
+
+  try {
+    const response = await fetch(url, {
+      headers: { Accept: "application/json" },
+      signal: controller.signal,
+    })
+    if (!response.ok) {
+      throw new DataProviderError(`${source} returned HTTP ${response.status}`, response.status)
+    }
+    return await response.json()
+  } catch (error) {
+    if (signal?.aborted || error instanceof DataProviderError) throw error
+    if (controller.signal.aborted) {
+      throw new DataProviderError(`${source} did not respond within ${REQUEST_TIMEOUT_MS / 1000}s`)
+    }
+    throw new DataProviderError(`${source} could not be reached`)
+  } finally {
+    clearTimeout(timer)
+    signal?.removeEventListener("abort", onAbort)
+  }
+}
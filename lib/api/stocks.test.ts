@@ -0,0 +1,55 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { fixtureStockBackend } from "./backends/fixtures"
+import { DataProviderError } from "./http"
+import { compareStocks } from "./stocks"
+
+const { getSeries } = fixtureStockBackend
+
+// The fixture backend knows every symbol, so failures are set up per symbol
+function failFor(symbols: Record<string, "error" | "empty">) {
+  vi.spyOn(fixtureStockBackend, "getSeries").mockImplementation(async (symbol, range, options) => {
+    if (symbols[symbol] === "error") throw new DataProviderError(`Unknown symbol ${symbol}`, 404)
+    const series = await getSeries(symbol, range, options)
+    return symbols[symbol] === "empty" ? { ...series, bars: [] } : series
+  })
+}
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe("compareStocks", () => {
+  it("normalizes every symbol to the percent change since the first open", async () => {
+    const comparison = await compareStocks(["aapl", " MSFT ", "AAPL"], "1M")
+    const apple = await getSeries("AAPL", "1M")
+    const first = apple.bars[0]
+    const last = apple.bars[apple.bars.length - 1]
+
+    expect(comparison.stocks.map((stock) => stock.symbol)).toEqual(["AAPL", "MSFT"])
+    expect(comparison.points).toHaveLength(apple.bars.length)
+    expect(comparison.points.map((point) => point.time)).toEqual(apple.bars.map((bar) => bar.time))
+    expect(comparison.points[0].values.AAPL).toBeCloseTo(((first.close - first.open) / first.open) * 100, 2)
+    expect(comparison.points[comparison.points.length - 1].values.AAPL).toBe(comparison.stocks[0].changePercent)
+    expect(Object.keys(comparison.points[0].values)).toEqual(["AAPL", "MSFT"])
+    expect(comparison.stocks[0]).toMatchObject({ price: last.close })
+    expect(comparison.failed).toEqual([])
+  })
+
+  it("lists symbols without data in failed and compares the rest", async () => {
+    failFor({ NOPE: "error", IPO: "empty" })
+    const comparison = await compareStocks(["AAPL", "NOPE", "IPO"], "5D")
+
+    expect(comparison.stocks.map((stock) => stock.symbol)).toEqual(["AAPL"])
+    expect(comparison.points.every((point) => Object.keys(point.values).join() === "AAPL")).toBe(true)
+    expect(comparison.failed).toEqual([
+      { symbol: "NOPE", error: "Unknown symbol NOPE" },
+      { symbol: "IPO", error: "No price history" },
+    ])
+  })
+
+  it("throws when no symbol has data", async () => {
+    failFor({ NOPE: "error", IPO: "empty" })
+
+    await expect(compareStocks(["NOPE", "IPO"], "1M")).rejects.toThrow("Unknown symbol NOPE")
+  })
+})
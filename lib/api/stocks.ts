@@ -0,0 +1,98 @@
+import { alphaVantageBackend } from "./backends/alpha-vantage"
+import { fixtureStockBackend } from "./backends/fixtures"
+import { selectBackend } from "./config"
+import { DataProviderError } from "./http"
+import type { RequestOptions, StockComparison, StockPerformance, StockQuote, StockRange, StockSeries } from "./types"
+
+export function getStockBackend() {
+  return selectBackend("stocks", [alphaVantageBackend], fixtureStockBackend)
+}
+
+export function getStockData(symbol: string, options?: RequestOptions): Promise<StockQuote> {
+  return getStockBackend().getQuote(symbol.trim().toUpperCase(), options)
+}
+
+export function getStockSeries(symbol: string, range: StockRange, options?: RequestOptions): Promise<StockSeries> {
+  return getStockBackend().getSeries(symbol.trim().toUpperCase(), range, options)
+}
+
+/** Most symbols one comparison can cover */
+export const MAX_COMPARED_STOCKS = 5
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits
+  return Math.round(value * factor) / factor
+}
+
+/**
+ * Performance of several symbols over the same range, each normalized to the
+ * percent change since the range began so they share one scale. Symbols
+ * without data are listed in `failed` as long as one symbol succeeds.
+ */
+export async function compareStocks(
+  symbols: string[],
+  range: StockRange,
+  options?: RequestOptions
+): Promise<StockComparison> {
+  const unique = Array.from(new Set(symbols.map((symbol) => symbol.trim().toUpperCase())))
+
+  // One request at a time: free data plans cap calls per minute and reject bursts
+  const settled: PromiseSettledResult<StockSeries>[] = []
+  for (const symbol of unique) {
+    try {
+      settled.push({ status: "fulfilled", value: await getStockSeries(symbol, range, options) })
+    } catch (reason) {
+      options?.signal?.throwIfAborted()
+      settled.push({ status: "rejected", reason })
+    }
+  }
+
+  const series = settled.flatMap((result) => (result.status === "fulfilled" && result.value.bars.length > 0 ? [result.value] : []))
+  const failed = settled.flatMap((result, index) => {
+    if (result.status === "fulfilled") {
+      return result.value.bars.length > 0 ? [] : [{ symbol: unique[index], error: "No price history" }]
+    }
+    return [{ symbol: unique[index], error: result.reason instanceof Error ? result.reason.message : String(result.reason) }]
+  })
+
+  if (series.length === 0) {
+    const reason = settled.find((result) => result.status === "rejected")
+    throw reason?.status === "rejected" ? reason.reason : new DataProviderError("No price history for any of the symbols", 404)
+  }
+
+  const stocks: StockPerformance[] = series.map(({ symbol, bars }) => {
+    const first = bars[0].open
+    const last = bars[bars.length - 1].close
+    return {
+      symbol,
+      price: last,
+      change: round(last - first),
+      changePercent: round(((last - first) / first) * 100),
+      high: Math.max(...bars.map((bar) => bar.high)),
+      low: Math.min(...bars.map((bar) => bar.low)),
+      volume: bars.reduce((total, bar) => total + bar.volume, 0),
+    }
+  })
+
+  // Symbols can miss bars (halts, listings), so times are merged
+  const points = new Map<string, Record<string, number>>()
+  for (const { symbol, bars } of series) {
+    for (const bar of bars) {
+      const values = points.get(bar.time) ?? {}
+      values[symbol] = round(((bar.close - bars[0].open) / bars[0].open) * 100)
+      points.set(bar.time, values)
+    }
+  }
+
+  return {
+    source: series[0].source,
+    range,
+    interval: series[0].interval,
+    timeZone: series[0].timeZone,
+    stocks,
+    points: Array.from(points.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([time, values]) => ({ time, values })),
+    failed,
+  }
+}
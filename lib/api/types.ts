@@ -0,0 +1,293 @@
+/**
+ * Data returned by the weather, stock and F1 tools. Every result names the
+ * backend it came from, so answers built on fixture data can say so.
+ */
+
+/** A place the geocoder resolved a name to */
+export interface GeoLocation {
+  name: string
+  /** State, province or region, when the geocoder knows it */
+  state?: string
+  /** ISO 3166 country code */
+  country: string
+  latitude: number
+  longitude: number
+}
+
+/** Returned instead of weather when a place name matches several places */
+export interface AmbiguousLocation {
+  source: string
+  type: "ambiguous-location"
+  query: string
+  candidates: GeoLocation[]
+}
+
+export interface CurrentWeather {
+  source: string
+  city: string
+  /** ISO 3166 country code */
+  country: string
+  /** Where the weather was looked up */
+  location: GeoLocation
+  /** Degrees Celsius */
+  temperature: number
+  feelsLike: number
+  /** Short condition group, e.g. "Clear", "Clouds", "Rain" */
+  condition: string
+  description: string
+  /** Relative humidity in percent */
+  humidity: number
+  /** km/h */
+  windSpeed: number
+  observedAt: string
+}
+
+export interface ForecastDay {
+  /** Local date at the location, YYYY-MM-DD */
+  date: string
+  /** Degrees Celsius */
+  minTemperature: number
+  maxTemperature: number
+  /** The condition seen most often that day */
+  condition: string
+  description: string
+  /** Highest chance of precipitation during the day, in percent */
+  precipitationProbability: number
+  /** Total rain and snow in mm */
+  precipitation: number
+}
+
+export interface ForecastHour {
+  /** Start of the period, ISO 8601 in UTC */
+  time: string
+  temperature: number
+  condition: string
+  precipitationProbability: number
+  /** mm */
+  precipitation: number
+}
+
+export interface WeatherForecast {
+  source: string
+  city: string
+  country: string
+  location: GeoLocation
+  /** Seconds east of UTC, for showing times in the location's local time */
+  utcOffset: number
+  days: ForecastDay[]
+  /** Evenly spaced steps; OpenWeather's free forecast has one every 3 hours */
+  hours: ForecastHour[]
+}
+
+/** OpenWeather's air quality index runs from 1 (good) to 5 (very poor) */
+export const AQI_LEVELS = ["Good", "Fair", "Moderate", "Poor", "Very poor"] as const
+
+export interface AirQuality {
+  /** 1-5, see AQI_LEVELS */
+  aqi: number
+  level: (typeof AQI_LEVELS)[number]
+  /** Concentrations in μg/m³ */
+  pollutants: {
+    pm2_5: number
+    pm10: number
+    o3: number
+    no2: number
+    so2: number
+    co: number
+  }
+  observedAt: string
+}
+
+export type AlertSeverity = "minor" | "moderate" | "severe" | "extreme"
+
+export interface WeatherAlert {
+  /** Headline, e.g. "Severe Thunderstorm Warning" */
+  event: string
+  /** The agency that issued it */
+  sender: string
+  severity: AlertSeverity
+  /** Validity window, ISO 8601 */
+  start: string
+  end: string
+  description: string
+}
+
+export interface AirQualityReport extends AirQuality {
+  source: string
+  city: string
+  country: string
+  location: GeoLocation
+  /** Alerts that haven't expired yet; null when the backend can't provide them */
+  alerts: WeatherAlert[] | null
+}
+
+export interface StockQuote {
+  source: string
+  symbol: string
+  price: number
+  change: number
+  changePercent: number
+  open: number
+  high: number
+  low: number
+  previousClose: number
+  volume: number
+  /** Trading day the quote belongs to, YYYY-MM-DD */
+  latestTradingDay: string
+  /** Price history, when a range was asked for */
+  history?: StockSeries
+}
+
+export const STOCK_RANGES = ["1D", "5D", "1M", "6M", "1Y"] as const
+
+export type StockRange = (typeof STOCK_RANGES)[number]
+
+/** One OHLCV bar */
+export interface StockBar {
+  /** Start of the bar in the exchange's time zone: "YYYY-MM-DD HH:mm" intraday, "YYYY-MM-DD" otherwise */
+  time: string
+  open: number
+  high: number
+  low: number
+  close: number
+  volume: number
+}
+
+export interface StockSeries {
+  source: string
+  symbol: string
+  range: StockRange
+  /** Bar size: 5-minute bars for 1D, hourly for 5D, daily for 1M, weekly beyond */
+  interval: "5min" | "60min" | "daily" | "weekly"
+  /** IANA zone the bar times are in */
+  timeZone: string
+  /** Oldest first */
+  bars: StockBar[]
+}
+
+/** How one symbol did over a compared range */
+export interface StockPerformance {
+  symbol: string
+  /** Latest close */
+  price: number
+  /** From the open of the first bar to the latest close */
+  change: number
+  changePercent: number
+  /** Extremes and total volume over the range */
+  high: number
+  low: number
+  volume: number
+}
+
+export interface StockComparison {
+  source: string
+  range: StockRange
+  interval: StockSeries["interval"]
+  timeZone: string
+  stocks: StockPerformance[]
+  /** Percent change since the start of the range at each bar time, by symbol */
+  points: { time: string; values: Record<string, number> }[]
+  /** Symbols that couldn't be compared, with the reason */
+  failed: { symbol: string; error: string }[]
+}
+
+export const F1_DATA_TYPES = ["next-race", "latest-race", "standings", "schedule"] as const
+
+export type F1DataType = (typeof F1_DATA_TYPES)[number]
+
+export interface F1NextRace {
+  source: string
+  type: "next-race"
+  season: string
+  round: string
+  raceName: string
+  circuit: string
+  location: string
+  date: string
+  time?: string
+}
+
+export interface F1LatestRace {
+  source: string
+  type: "latest-race"
+  season: string
+  round: string
+  raceName: string
+  circuit: string
+  date: string
+  results: {
+    position: string
+    driver: string
+    constructor: string
+    /** Race time for the winner, gap or status for everyone else */
+    time: string
+    points: string
+  }[]
+}
+
+export interface F1Standings {
+  source: string
+  type: "standings"
+  season: string
+  round: string
+  drivers: {
+    position: string
+    driver: string
+    constructor: string
+    points: string
+    wins: string
+  }[]
+}
+
+export interface F1Schedule {
+  source: string
+  type: "schedule"
+  season: string
+  races: {
+    round: string
+    raceName: string
+    circuit: string
+    location: string
+    date: string
+    time?: string
+  }[]
+}
+
+export type F1Data = F1NextRace | F1LatestRace | F1Standings | F1Schedule
+
+export interface RequestOptions {
+  /** Aborted when the user stops generation */
+  signal?: AbortSignal
+}
+
+/** What every backend has in common, so config can choose between them */
+export interface DataBackend {
+  readonly id: string
+  readonly label: string
+  /** False when credentials the backend needs are missing */
+  isConfigured(): boolean
+}
+
+export interface WeatherBackend extends DataBackend {
+  /** Places called `name`, optionally only those in `country` */
+  geocode(name: string, country?: string, options?: RequestOptions): Promise<GeoLocation[]>
+  getCurrentWeather(location: GeoLocation, options?: RequestOptions): Promise<CurrentWeather>
+  /** Every day and step the backend can forecast, starting now */
+  getForecast(location: GeoLocation, options?: RequestOptions): Promise<WeatherForecast>
+  getAirQuality(location: GeoLocation, options?: RequestOptions): Promise<AirQuality>
+  /** Current and upcoming alerts, or null when the backend has no access to any */
+  getAlerts(location: GeoLocation, options?: RequestOptions): Promise<WeatherAlert[] | null>
+}
+
+export interface StockBackend extends DataBackend {
+  getQuote(symbol: string, options?: RequestOptions): Promise<StockQuote>
+  getSeries(symbol: string, range: StockRange, options?: RequestOptions): Promise<StockSeries>
+}
+
+export interface F1Backend extends DataBackend {
+  /** The first race of the current season that has not been run yet */
+  getNextRace(options?: RequestOptions): Promise<F1NextRace>
+  getLatestRace(season?: string, options?: RequestOptions): Promise<F1LatestRace>
+  getStandings(season?: string, options?: RequestOptions): Promise<F1Standings>
+  getSchedule(season?: string, options?: RequestOptions): Promise<F1Schedule>
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest"
+import { resolveLocation } from "./weather"
+
+describe("resolveLocation", () => {
+  it("asks when a bare name matches places in different countries", async () => {
+    const result = await resolveLocation("Paris")
+
+    expect(result).toMatchObject({ type: "ambiguous-location", query: "Paris" })
+    expect("candidates" in result && result.candidates.map((place) => place.country)).toEqual(["FR", "US", "US"])
+  })
+
+  it("asks when the matches share a country but are far apart", async () => {
+    const result = await resolveLocation("Springfield, US")
+
+    expect(result).toMatchObject({ type: "ambiguous-location" })
+  })
+
+  it("keeps the only match of a narrowed name", async () => {
+    expect(await resolveLocation("Paris, Texas")).toMatchObject({ name: "Paris", state: "Texas", country: "US" })
+  })
+
+  it("keeps the top match of a name with one place", async () => {
+    expect(await resolveLocation("Berlin")).toMatchObject({ name: "Berlin", country: "DE" })
+  })
+})
@@ -0,0 +1,147 @@
+import { fixtureWeatherBackend } from "./backends/fixtures"
+import { openWeatherBackend } from "./backends/openweather"
+import { selectBackend } from "./config"
+import { DataProviderError } from "./http"
+import type {
+  AirQualityReport,
+  AmbiguousLocation,
+  CurrentWeather,
+  GeoLocation,
+  RequestOptions,
+  WeatherForecast,
+} from "./types"
+
+/** Backends forecast at most this many days ahead */
+export const MAX_FORECAST_DAYS = 5
+
+export function getWeatherBackend() {
+  return selectBackend("weather", [openWeatherBackend], fixtureWeatherBackend)
+}
+
+// Common ways of writing a country that aren't its ISO code or English name
+const COUNTRY_ALIASES: Record<string, string> = { usa: "US", uk: "GB", england: "GB" }
+
+const countryNames = new Intl.DisplayNames(["en"], { type: "region" })
+
+// "Texas", "US", "United States" or "usa" all match a place in Texas, US
+function matchesQualifier(place: GeoLocation, qualifier: string): boolean {
+  const value = qualifier.toLowerCase()
+  const country = place.country.toUpperCase()
+
+  return (
+    place.state?.toLowerCase() === value ||
+    country.toLowerCase() === value ||
+    COUNTRY_ALIASES[value] === country ||
+    (!!country && countryNames.of(country)?.toLowerCase() === value)
+  )
+}
+
+/** Places of the same country closer than this to the top match are taken as the same place */
+const SAME_PLACE_KM = 50
+
+// Great-circle distance in kilometres
+function distanceKm(a: GeoLocation, b: GeoLocation): number {
+  const radians = (degrees: number) => (degrees * Math.PI) / 180
+  const dLat = radians(b.latitude - a.latitude)
+  const dLon = radians(b.longitude - a.longitude)
+  const h =
+    Math.sin(dLat / 2) ** 2 + Math.cos(radians(a.latitude)) * Math.cos(radians(b.latitude)) * Math.sin(dLon / 2) ** 2
+  return 2 * 6371 * Math.asin(Math.sqrt(h))
+}
+
+/**
+ * Resolve a place name to one location. The query may narrow the name down
+ * with comma-separated parts, as in "Paris, Texas" or "London, CA". When the
+ * matches lie in different countries or far apart, as for "Paris" or
+ * "Springfield, US", they are returned for the user to choose from.
+ */
+export async function resolveLocation(
+  query: string,
+  country?: string,
+  options?: RequestOptions
+): Promise<GeoLocation | AmbiguousLocation> {
+  const backend = getWeatherBackend()
+  const [name, ...qualifiers] = query.split(",").map((part) => part.trim()).filter(Boolean)
+  const places = (await backend.geocode(name ?? query, country, options)).filter((place) =>
+    qualifiers.every((qualifier) => matchesQualifier(place, qualifier))
+  )
+
+  // Geocoders can list one place several times under different names
+  const coordinates = (place: GeoLocation) => `${place.latitude.toFixed(2)},${place.longitude.toFixed(2)}`
+  const candidates = places.filter(
+    (place, index) => places.findIndex((other) => coordinates(other) === coordinates(place)) === index
+  )
+
+  const [top] = candidates
+  if (!top) {
+    throw new DataProviderError(`No place called "${query}" was found. Check the spelling or add a country code.`, 404)
+  }
+  if (candidates.every((place) => place.country === top.country && distanceKm(top, place) <= SAME_PLACE_KM)) {
+    return top
+  }
+
+  return { source: backend.id, type: "ambiguous-location", query, candidates }
+}
+
+export async function getWeatherData(
+  city: string,
+  country?: string,
+  options?: RequestOptions
+): Promise<CurrentWeather | AmbiguousLocation> {
+  const location = await resolveLocation(city, country, options)
+  if ("type" in location) return location
+
+  return getWeatherBackend().getCurrentWeather(location, options)
+}
+
+/** The next `days` days, and the steps that fall within the next `hours` hours */
+export async function getWeatherForecast(
+  city: string,
+  country: string | undefined,
+  range: { days: number; hours: number },
+  options?: RequestOptions
+): Promise<WeatherForecast | AmbiguousLocation> {
+  const location = await resolveLocation(city, country, options)
+  if ("type" in location) return location
+
+  const forecast = await getWeatherBackend().getForecast(location, options)
+  const first = forecast.hours[0] ? Date.parse(forecast.hours[0].time) : 0
+  const end = first + range.hours * 3600 * 1000
+
+  return {
+    ...forecast,
+    days: forecast.days.slice(0, range.days),
+    hours: forecast.hours.filter((hour) => Date.parse(hour.time) < end),
+  }
+}
+
+/** Air quality and any alerts that haven't expired, for one place */
+export async function getAirQualityAndAlerts(
+  city: string,
+  country?: string,
+  options?: RequestOptions
+): Promise<AirQualityReport | AmbiguousLocation> {
+  const location = await resolveLocation(city, country, options)
+  if ("type" in location) return location
+
+  const backend = getWeatherBackend()
+  const [airQuality, alerts] = await Promise.all([
+    backend.getAirQuality(location, options),
+    // Alerts are an extra; the reading is still worth returning without them
+    backend.getAlerts(location, options).catch((error) => {
+      if (options?.signal?.aborted) throw error
+      console.error("Failed to load weather alerts:", error)
+      return null
+    }),
+  ])
+  const observedAt = Date.parse(airQuality.observedAt)
+
+  return {
+    source: backend.id,
+    city: location.name,
+    country: location.country,
+    location,
+    ...airQuality,
+    alerts: alerts && alerts.filter((alert) => Date.parse(alert.end) > observedAt),
+  }
+}
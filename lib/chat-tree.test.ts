@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest"
+import { getBranch, getChildren, getLatestLeaf, getSiblings, type TreeNode } from "./chat-tree"
+
+// q1 was answered twice (a1, then the regenerated a1b); after a1 the user
+// asked q2 and later edited it into q2b, which got its own answer
+const nodes: TreeNode[] = [
+  { id: "q1", parentId: null },
+  { id: "a1", parentId: "q1" },
+  { id: "q2", parentId: "a1" },
+  { id: "a2", parentId: "q2" },
+  { id: "a1b", parentId: "q1" },
+  { id: "q2b", parentId: "a1" },
+  { id: "a2b", parentId: "q2b" },
+]
+
+const ids = (list: TreeNode[]) => list.map((node) => node.id)
+const node = (id: string) => nodes.find((item) => item.id === id)!
+
+describe("regenerated answers", () => {
+  it("lists the answers to one question as variants, oldest first", () => {
+    expect(ids(getSiblings(nodes, node("a1b")))).toEqual(["a1", "a1b"])
+    expect(ids(getChildren(nodes, "q1"))).toEqual(["a1", "a1b"])
+  })
+
+  it("treats a message without variants as its own only sibling", () => {
+    expect(ids(getSiblings(nodes, node("q1")))).toEqual(["q1"])
+  })
+
+  it("ends the branch at the chosen variant", () => {
+    expect(ids(getBranch(nodes, "a1b"))).toEqual(["q1", "a1b"])
+    expect(getLatestLeaf(nodes, "a1b")).toBe("a1b")
+  })
+
+  it("follows the newest variant below the chosen message", () => {
+    expect(getLatestLeaf(nodes, "q1")).toBe("a1b")
+    expect(getLatestLeaf(nodes, "a1")).toBe("a2b")
+  })
+})
+
+describe("edited questions", () => {
+  it("lists the original and the edited question as variants", () => {
+    expect(ids(getSiblings(nodes, node("q2b")))).toEqual(["q2", "q2b"])
+  })
+
+  it("keeps the original branch when a question is edited", () => {
+    expect(ids(getBranch(nodes, "a2"))).toEqual(["q1", "a1", "q2", "a2"])
+    expect(ids(getBranch(nodes, "a2b"))).toEqual(["q1", "a1", "q2b", "a2b"])
+  })
+
+  it("loads nothing for a missing or unknown leaf", () => {
+    expect(getBranch(nodes, null)).toEqual([])
+    expect(getBranch(nodes, "missing")).toEqual([])
+  })
+})
@@ -0,0 +1,48 @@
+/**
+ * Helpers for walking a chat stored as a message tree. Every message points
+ * at the message it answers or follows via `parentId`. Regenerated answers
+ * and edited questions are siblings that share a parent, so each fork keeps
+ * the original branch intact. Nodes are expected in creation order.
+ */
+
+export interface TreeNode {
+  id: string
+  parentId?: string | null
+}
+
+// Messages that follow the given one, oldest first
+export function getChildren<T extends TreeNode>(nodes: T[], parentId: string | null): T[] {
+  return nodes.filter((node) => (node.parentId ?? null) === parentId)
+}
+
+// The message itself and its alternate variants, oldest first
+export function getSiblings<T extends TreeNode>(nodes: T[], node: T): T[] {
+  return getChildren(nodes, node.parentId ?? null)
+}
+
+// Messages from the root down to `leafId`, in conversation order
+export function getBranch<T extends TreeNode>(nodes: T[], leafId: string | null): T[] {
+  const byId = new Map(nodes.map((node) => [node.id, node]))
+  const branch: T[] = []
+  let current = leafId ? byId.get(leafId) : undefined
+
+  while (current) {
+    branch.unshift(current)
+    current = current.parentId ? byId.get(current.parentId) : undefined
+  }
+
+  return branch
+}
+
+// Follow the newest child at every level to the end of the conversation
+export function getLatestLeaf<T extends TreeNode>(nodes: T[], fromId: string): string {
+  let leafId = fromId
+  let children = getChildren(nodes, leafId)
+
+  while (children.length > 0) {
+    leafId = children[children.length - 1].id
+    children = getChildren(nodes, leafId)
+  }
+
+  return leafId
+}
@@ -24,7 +24,6 @@ if (process.env.NODE_ENV === "production") {
     idle_timeout: 0,
     max_lifetime: 60 * 10,
     connect_timeout: 60,
-    socket_timeout: 60,
     transform: {
       undefined: null,
     },
@@ -43,7 +42,6 @@ if (process.env.NODE_ENV === "production") {
       idle_timeout: 0,
       max_lifetime: 60 * 10,
       connect_timeout: 60,
-      socket_timeout: 60,
       transform: {
         undefined: null,
       },
@@ -1,4 +1,4 @@
-import { pgTable, text, timestamp, uuid, jsonb, boolean, integer } from "drizzle-orm/pg-core"
+import { pgTable, text, timestamp, uuid, jsonb, boolean, integer, numeric, index, type AnyPgColumn } from "drizzle-orm/pg-core"
 import { relations } from "drizzle-orm"
 
 export const users = pgTable("users", {
@@ -7,6 +7,8 @@ export const users = pgTable("users", {
   emailVerified: timestamp("email_verified"),
   name: text("name"),
   image: text("image"),
+  // Tone, units, role etc. the assistant should follow in every chat
+  customInstructions: text("custom_instructions"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 })
@@ -56,6 +58,20 @@ export const chats = pgTable("chats", {
   id: uuid("id").defaultRandom().primaryKey(),
   userId: text("user_id").notNull(),
   title: text("title").notNull(),
+  // "prompt" titles are cut from the first question and get replaced by a
+  // generated one; "manual" titles are never touched by the server
+  titleSource: text("title_source", { enum: ["prompt", "generated", "manual"] })
+    .default("prompt")
+    .notNull(),
+  // LLM provider and model chosen for this chat; null means the env default
+  provider: text("provider"),
+  model: text("model"),
+  // Replaces the default assistant persona for this chat only
+  systemPrompt: text("system_prompt"),
+  // Rolling summary of older turns that no longer fit in the context budget,
+  // covering the branch up to and including summaryMessageId
+  summary: text("summary"),
+  summaryMessageId: uuid("summary_message_id"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 })
@@ -65,12 +81,69 @@ export const messages = pgTable("messages", {
   chatId: uuid("chat_id")
     .notNull()
     .references(() => chats.id, { onDelete: "cascade" }),
+  // Previous message in the conversation; regenerated answers share a parent
+  parentId: uuid("parent_id").references((): AnyPgColumn => messages.id, {
+    onDelete: "cascade",
+  }),
   role: text("role", { enum: ["user", "assistant"] }).notNull(),
   content: text("content").notNull(),
   toolInvocations: jsonb("tool_invocations"),
+  // Set when the user stopped generation before the answer was complete
+  interrupted: boolean("interrupted").default(false).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 })
 
+// Facts about a user the assistant carries across chats
+export const memories = pgTable("memories", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: text("user_id").notNull(),
+  content: text("content").notNull(),
+  // "user" facts were typed in settings; "assistant" facts came from the
+  // remember tool
+  source: text("source", { enum: ["user", "assistant"] }).default("user").notNull(),
+  // Chat the assistant learned the fact in, if any
+  chatId: uuid("chat_id").references(() => chats.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (memory) => ({
+  userIdx: index("memories_user_id_idx").on(memory.userId),
+}))
+
+// Tool results shared between requests when TOOL_CACHE=postgres
+export const toolCache = pgTable("tool_cache", {
+  key: text("key").primaryKey(),
+  value: jsonb("value").notNull(),
+  storedAt: timestamp("stored_at").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+}, (entry) => ({
+  expiresAtIdx: index("tool_cache_expires_at_idx").on(entry.expiresAt),
+}))
+
+// One row per model call. Rows outlive deleted chats and messages so user
+// totals keep counting what was actually spent.
+export const tokenUsage = pgTable("token_usage", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: text("user_id").notNull(),
+  chatId: uuid("chat_id").references(() => chats.id, { onDelete: "set null" }),
+  // The answer the call was made for
+  messageId: uuid("message_id").references(() => messages.id, { onDelete: "set null" }),
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  // "tool-round" calls asked for tools; "answer" calls produced the reply
+  purpose: text("purpose", { enum: ["answer", "tool-round", "summary", "title"] }).notNull(),
+  promptTokens: integer("prompt_tokens").notNull(),
+  completionTokens: integer("completion_tokens").notNull(),
+  // Set when the provider reported no usage and the counts were estimated
+  estimated: boolean("estimated").default(false).notNull(),
+  // Priced when recorded, so later price changes don't rewrite history;
+  // null for models without a known price
+  costUsd: numeric("cost_usd", { precision: 12, scale: 6, mode: "number" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (usage) => ({
+  chatIdx: index("token_usage_chat_id_idx").on(usage.chatId),
+  userIdx: index("token_usage_user_id_idx").on(usage.userId),
+}))
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   chats: many(chats),
@@ -0,0 +1,16 @@
+import { sql } from "drizzle-orm"
+import { tokenUsage } from "./schema"
+
+/**
+ * Aggregates over token_usage rows, shared by the per-chat and per-user
+ * usage endpoints. Calls without a known price are left out of costUsd and
+ * counted in unpricedCalls instead.
+ */
+export const usageTotals = {
+  calls: sql<number>`count(*)`.mapWith(Number),
+  promptTokens: sql<number>`coalesce(sum(${tokenUsage.promptTokens}), 0)`.mapWith(Number),
+  completionTokens: sql<number>`coalesce(sum(${tokenUsage.completionTokens}), 0)`.mapWith(Number),
+  costUsd: sql<number>`coalesce(sum(${tokenUsage.costUsd}), 0)`.mapWith(Number),
+  unpricedCalls: sql<number>`count(*) filter (where ${tokenUsage.costUsd} is null)`.mapWith(Number),
+  estimated: sql<boolean>`coalesce(bool_or(${tokenUsage.estimated}), false)`,
+}
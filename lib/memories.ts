@@ -0,0 +1,46 @@
+import { and, desc, eq, sql } from "drizzle-orm"
+import { db } from "@/lib/db"
+import { memories } from "@/lib/db/schema"
+import { MAX_MEMORIES } from "@/lib/ai/memory"
+
+export type Memory = typeof memories.$inferSelect
+
+export type SaveMemoryResult =
+  | { status: "saved" | "duplicate"; memory: Memory }
+  | { status: "full" }
+
+export function listMemories(userId: string): Promise<Memory[]> {
+  return db
+    .select()
+    .from(memories)
+    .where(eq(memories.userId, userId))
+    .orderBy(desc(memories.createdAt))
+}
+
+/**
+ * Store a fact for a user. A fact the user already has (ignoring case) is
+ * returned as is instead of being stored twice.
+ */
+export async function saveMemory(
+  userId: string,
+  content: string,
+  { source = "user", chatId = null }: { source?: Memory["source"]; chatId?: string | null } = {}
+): Promise<SaveMemoryResult> {
+  const [existing] = await db
+    .select()
+    .from(memories)
+    .where(and(eq(memories.userId, userId), sql`lower(${memories.content}) = lower(${content})`))
+    .limit(1)
+
+  if (existing) return { status: "duplicate", memory: existing }
+
+  const [{ count }] = await db
+    .select({ count: sql<number>`count(*)`.mapWith(Number) })
+    .from(memories)
+    .where(eq(memories.userId, userId))
+
+  if (count >= MAX_MEMORIES) return { status: "full" }
+
+  const [memory] = await db.insert(memories).values({ userId, content, source, chatId }).returning()
+  return { status: "saved", memory }
+}
@@ -0,0 +1,20 @@
+import { fileURLToPath } from "url"
+import { defineConfig } from "vitest/config"
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": fileURLToPath(new URL(".", import.meta.url)) },
+  },
+  test: {
+    environment: "node",
+    include: ["**/*.test.ts"],
+    exclude: ["node_modules/**", ".next/**"],
+    env: {
+      // The client connects lazily, so nothing is reached unless a test queries
+      DATABASE_URL: "postgres://localhost:5432/test",
+      // Sample data and no result cache, so runs are offline and repeatable
+      DATA_BACKEND: "fixtures",
+      TOOL_CACHE: "off",
+    },
+  },
+})